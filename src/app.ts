@@ -12,6 +12,15 @@ import { WickedError } from 'wicked-sdk';
 
 import { kongMain } from './kong/main';
 import * as utils from  './kong/utils';
+import { audit } from './kong/audit';
+import { snapshot } from './kong/snapshot';
+import { consumerCache } from './kong/cache';
+import { scheduler } from './kong/scheduler';
+import { deadLetters } from './kong/deadletter';
+import { syncLock } from './kong/lock';
+import { orphans } from './kong/orphans';
+import { pluginValidation } from './kong/validation';
+import { AuditQuery } from './kong/types';
 
 const app = express();
 app.initialized = false;
@@ -42,7 +51,13 @@ app.post('/', function (req, res, next) {
     const correlationId = utils.createRandomId();
     debug(`processingWebhooks correlation ID: ${correlationId}`);
     req.app.processingWebhooks = true;
-    kongMain.processWebhooks(function (err) {
+    const auditContext = {
+        trigger: 'webhook',
+        correlationId: correlationId
+    };
+    // Waits for scheduled jobs or a /resync to finish, see lock.ts
+    const work = callback => syncLock.run('webhook processing', kongMain.processWebhooks, callback);
+    audit.runWithContext(auditContext, work, function (err) {
         req.app.processingWebhooks = false;
         const duration = Date.now() - startTime;
         debug(`processWebhooks() returned after ${duration} ms (correlation id ${correlationId})`);
@@ -68,7 +83,11 @@ app.get('/ping', function (req, res, next) {
         gitBranch: utils.getGitBranch(),
         buildDate: utils.getBuildDate(),
         kongVersion: utils.getExpectedKongVersion(),
-        kongStatus: JSON.stringify(utils.getKongClusterStatus())
+        kongStatus: JSON.stringify(utils.getKongClusterStatus()),
+        kongDbless: utils.isKongDbless(),
+        consumerCache: consumerCache.getStatistics(),
+        importResync: kongMain.getImportResyncStatus(),
+        pendingDeletes: kongMain.getPendingDeletesResult()
     };
     if (!app.initialized) {
         let msg = 'Initializing - Waiting for API and Kong';
@@ -87,6 +106,8 @@ app.get('/ping', function (req, res, next) {
         health.healthy = 0;
         health.message = 'Kong is currently not available';
         res.status(200);
+    } else if (health.importResync.inProgress) {
+        health.message = 'Resyncing after import';
     }
     res.json(health);
 });
@@ -108,7 +129,7 @@ if (process.env.ALLOW_RESYNC) {
         // Reset usage statistics and keep changing actions/non-matching objects
         utils.resetStatistics(true);
         const startTime = Date.now();
-        kongMain.resync(function (err) {
+        syncLock.run('resync', kongMain.resync, function (err) {
             // Retrieve the list of statistics, we will definitely return these,
             // disregarding of the success of the action.
             const duration = Date.now() - startTime;
@@ -128,6 +149,204 @@ if (process.env.ALLOW_RESYNC) {
     });
 }
 
+/*
+    End point to retrieve the plan of a full resync, without actually
+    changing anything in Kong ("dry run"). Returns the lists of APIs,
+    plugins, consumers, consumer plugins and consumer API plugins which
+    would be added, updated or deleted.
+*/
+app.get('/plan', function (req, res, next) {
+    debug('/plan');
+    if (!app.initialized)
+        return res.status(503).json({ message: 'Not yet initialized.' });
+    const startTime = Date.now();
+    kongMain.plan(function (err, plan) {
+        const duration = Date.now() - startTime;
+        debug(`Plan call took ${duration} ms`);
+        if (err)
+            return next(err);
+        return res.json(plan);
+    });
+});
+
+/*
+    End point to retrieve the plugins which failed the validation against
+    Kong's plugin schemas, by API and by plan, including the field-level
+    errors. Invalid plugins are skipped when syncing.
+*/
+app.get('/validation', function (req, res, next) {
+    debug('/validation');
+    return res.json(pluginValidation.getReport());
+});
+
+/*
+    End point to retrieve the status of the scheduled reconciliation jobs
+    (APIs, consumers and orphan cleanup), including the results of the
+    most recent runs.
+*/
+app.get('/schedule', function (req, res, next) {
+    debug('/schedule');
+    return res.json(scheduler.getStatus());
+});
+
+/*
+    End points to manage the webhook events which could not be processed, even
+    after retrying ("dead letters"):
+
+    - GET /deadletters: List all dead letters, oldest first
+    - GET /deadletters/:eventId: Retrieve a single dead letter, including the event
+    - POST /deadletters/:eventId/replay: Process the event again; on success, the
+      dead letter is removed
+    - DELETE /deadletters/:eventId: Discard the dead letter
+*/
+app.get('/deadletters', function (req, res, next) {
+    debug('GET /deadletters');
+    deadLetters.list(function (err, deadLetterList) {
+        if (err)
+            return next(err);
+        return res.json(deadLetterList);
+    });
+});
+
+app.get('/deadletters/:eventId', function (req, res, next) {
+    debug(`GET /deadletters/${req.params.eventId}`);
+    getDeadLetter(req.params.eventId, function (err, deadLetter) {
+        if (err)
+            return next(err);
+        return res.json(deadLetter);
+    });
+});
+
+app.post('/deadletters/:eventId/replay', function (req, res, next) {
+    debug(`POST /deadletters/${req.params.eventId}/replay`);
+    getDeadLetter(req.params.eventId, function (err, deadLetter) {
+        if (err)
+            return next(err);
+        const auditContext = {
+            trigger: 'replay',
+            correlationId: req.correlationId
+        };
+        const work = callback => syncLock.run('dead letter replay', callback => kongMain.replayDeadLetter(deadLetter, callback), callback);
+        audit.runWithContext(auditContext, work, function (err) {
+            if (err)
+                return next(err);
+            return res.status(204).send('');
+        });
+    });
+});
+
+app.delete('/deadletters/:eventId', function (req, res, next) {
+    debug(`DELETE /deadletters/${req.params.eventId}`);
+    getDeadLetter(req.params.eventId, function (err, deadLetter) {
+        if (err)
+            return next(err);
+        deadLetters.remove(deadLetter.eventId, function (err) {
+            if (err)
+                return next(err);
+            return res.status(204).send('');
+        });
+    });
+});
+
+function getDeadLetter(eventId: string, callback) {
+    deadLetters.get(eventId, function (err, deadLetter) {
+        if (err)
+            return callback(err);
+        if (!deadLetter) {
+            const err = new WickedError('Dead letter not found');
+            err.status = 404;
+            return callback(err);
+        }
+        return callback(null, deadLetter);
+    });
+}
+
+/*
+    End point to retrieve the dry run report of the cleanup of orphaned end
+    user consumers (OAuth2 implicit grant, see DECISIONS.md): Lists all end
+    user consumers in Kong, whether they can be mapped to an application,
+    subscription and user in wicked, and since when they are orphaned.
+
+    The actual cleanup is done by the "orphans" scheduled job (env variable
+    SCHEDULE_ORPHANS), after the grace period (ORPHAN_GRACE_PERIOD_MINUTES).
+*/
+app.get('/orphans', function (req, res, next) {
+    debug('/orphans');
+    if (!app.initialized)
+        return res.status(503).json({ message: 'Not yet initialized.' });
+    const dryRun = true;
+    orphans.cleanupUserConsumers(dryRun, function (err, report) {
+        if (err)
+            return next(err);
+        return res.json(report);
+    });
+});
+
+/*
+    End point to query the audit journal of changes made to Kong. Supports
+    the following query parameters (all optional):
+
+    - from, to: Time range, either as ISO date or as milliseconds since epoch
+    - entity: One of service, route, plugin, consumer, api
+    - id: The ID of the entity (or of the consumer)
+    - api: The name of the wicked API
+    - limit: Maximum number of records to return (default 1000)
+
+    Records are returned newest first.
+*/
+app.get('/audit', function (req, res, next) {
+    debug('/audit');
+    const query: AuditQuery = {
+        from: parseTime(req.query.from),
+        to: parseTime(req.query.to),
+        entity: req.query.entity,
+        id: req.query.id,
+        api: req.query.api,
+        limit: req.query.limit ? Number(req.query.limit) : undefined
+    };
+    audit.query(query, function (err, records) {
+        if (err)
+            return next(err);
+        return res.json(records);
+    });
+});
+
+function parseTime(value: string): number {
+    if (!value)
+        return undefined;
+    if (/^[0-9]+$/.test(value))
+        return Number(value);
+    const time = Date.parse(value);
+    if (isNaN(time))
+        return undefined;
+    return time;
+}
+
+/*
+    End point to export the state of Kong (services, routes, plugins, consumers
+    and consumer credentials) as a declarative snapshot document. Pass
+    ?format=yaml to retrieve YAML instead of JSON.
+
+    As the snapshot contains the consumer credentials, this requires the env
+    variable ALLOW_SNAPSHOT to be set; otherwise this end point renders a 404.
+*/
+if (process.env.ALLOW_SNAPSHOT) {
+    app.get('/snapshot', function (req, res, next) {
+        debug('/snapshot');
+        if (!app.initialized)
+            return res.status(503).json({ message: 'Not yet initialized.' });
+        snapshot.create(function (err, kongSnapshot) {
+            if (err)
+                return next(err);
+            if (req.query.format === 'yaml')
+                res.type('text/yaml');
+            else
+                res.type('application/json');
+            return res.send(snapshot.render(kongSnapshot, req.query.format));
+        });
+    });
+}
+
 /*
     End point used to kill the Kong Adapter process. This is used
     in conjunction with the integration tests in the wicked.portal-test
@@ -14,6 +14,8 @@ import * as wicked from 'wicked-sdk';
 import { kongMain } from '../kong/main';
 import * as utils from '../kong/utils';
 import { kongMonitor } from '../kong/monitor';
+import { ignoreRules } from '../kong/ignore';
+import { scheduler } from '../kong/scheduler';
 
 /**
  * Get port from environment and store in Express.
@@ -43,6 +45,7 @@ const wickedOptions = {
 async.series([
     callback => wicked.initialize(wickedOptions, callback),
     callback => wicked.initMachineUser('kong-adapter', callback),
+    callback => ignoreRules.init(callback),
     callback => wicked.awaitUrl(wicked.getInternalKongAdminUrl(), null, callback),
     callback => utils.initGroups(callback),
     callback => kongMonitor.init(callback)
@@ -72,6 +75,7 @@ async.series([
         // Graceful shutdown
         process.on('SIGINT', function () {
             debug("Gracefully shutting down.");
+            scheduler.stop();
             kongMain.deinit(function (err) {
                 process.exit();
             });
@@ -80,8 +84,12 @@ async.series([
         info("Kong Adapter initialization done.");
         app.initialized = true;
 
-        // Resync APIs every five minutes.
-        setInterval(() => { kongMain.resyncApis(); }, 5 * 60 * 1000);
+        // Periodic reconciliation; the schedules can be overridden using the env
+        // variables SCHEDULE_APIS, SCHEDULE_CONSUMERS and SCHEDULE_ORPHANS.
+        scheduler.addJob('apis', '5m', callback => kongMain.reconcileApis(callback));
+        scheduler.addJob('consumers', '1h', callback => kongMain.reconcileConsumers(callback));
+        scheduler.addJob('orphans', 'off', callback => kongMain.cleanupOrphans(callback));
+        scheduler.start();
     });
 });
 
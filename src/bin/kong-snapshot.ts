@@ -0,0 +1,165 @@
+'use strict';
+
+/**
+ * Command line tool to export the state of Kong managed by the Kong Adapter
+ * as a declarative snapshot document, and to restore Kong from such a snapshot.
+ *
+ * Usage:
+ *   node dist/bin/kong-snapshot.js export [--kong-url <url>] [--format json|yaml] [--output <file>] [--ignore-rules <file>]
+ *   node dist/bin/kong-snapshot.js restore --input <file> [--kong-url <url>] [--apply] [--ignore-rules <file>]
+ *
+ * The Kong Admin URL defaults to the env variable KONG_ADMIN_URL, or
+ * http://kong:8001/ if that is not set. Without --output, the snapshot is
+ * written to stdout.
+ *
+ * The tool does not need the portal. The ignore rules (see kong/ignore.ts) are
+ * read from IGNORE_RULES and from --ignore-rules, or IGNORE_RULES_FILE; the
+ * ignore list of the wicked globals is not available here.
+ *
+ * Without --apply, "restore" only prints the plan of what would be changed
+ * (dry run). With --apply, the changes are applied to Kong, and the plan of
+ * what was changed is printed.
+ */
+
+const fs = require('fs');
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:kong-snapshot');
+
+import * as utils from '../kong/utils';
+import { snapshot } from '../kong/snapshot';
+import { sync } from '../kong/sync';
+import { audit } from '../kong/audit';
+import { secrets } from '../kong/secrets';
+import { ignoreRules } from '../kong/ignore';
+import { kongMonitor } from '../kong/monitor';
+
+const DEFAULT_KONG_URL = 'http://kong:8001/';
+
+const options = parseArguments(process.argv.slice(2));
+if (!options) {
+    usage();
+    process.exit(1);
+}
+
+let kongUrl = options.kongUrl || process.env.KONG_ADMIN_URL || DEFAULT_KONG_URL;
+if (!kongUrl.endsWith('/'))
+    kongUrl += '/';
+utils.setKongUrl(kongUrl);
+
+ignoreRules.initWithoutPortal(options.ignoreRules, function (err) {
+    if (err)
+        process.exit(1);
+    // The version decides e.g. whether the restored entities are tagged
+    kongMonitor.detectKong(function (err) {
+        if (err) {
+            error('Could not read the version of Kong.');
+            error(err);
+            process.exit(1);
+        }
+        runCommand();
+    });
+});
+
+function runCommand() {
+    switch (options.command) {
+        case 'export':
+            exportSnapshot();
+            break;
+        case 'restore':
+            restoreSnapshot();
+            break;
+        default:
+            usage();
+            process.exit(1);
+    }
+}
+
+function exportSnapshot() {
+    debug(`Exporting snapshot from ${kongUrl}`);
+    snapshot.create(function (err, kongSnapshot) {
+        if (err) {
+            error('Could not create snapshot of Kong.');
+            error(err);
+            process.exit(1);
+        }
+        const text = snapshot.render(kongSnapshot, options.format);
+        if (options.output) {
+            fs.writeFileSync(options.output, text, 'utf8');
+            info(`Wrote snapshot of ${kongSnapshot.apis.length} APIs and ${kongSnapshot.consumers.length} consumers to ${options.output}`);
+        } else {
+            process.stdout.write(text + '\n');
+        }
+    });
+}
+
+function restoreSnapshot() {
+    if (!options.input) {
+        usage();
+        process.exit(1);
+    }
+    let kongSnapshot;
+    try {
+        kongSnapshot = snapshot.parse(fs.readFileSync(options.input, 'utf8'));
+    } catch (err) {
+        error(`Could not read snapshot from ${options.input}: ${err.message}`);
+        process.exit(1);
+    }
+    const dryRun = !options.apply;
+    debug(`Restoring snapshot to ${kongUrl} (dry run: ${dryRun})`);
+    audit.runWithContext({ trigger: 'restore' }, callback => sync.restoreSnapshot(kongSnapshot, dryRun, callback), function (err, plan) {
+        if (err) {
+            error('Could not restore snapshot.');
+            error(err);
+            process.exit(1);
+        }
+        process.stdout.write(JSON.stringify(secrets.redactPlan(plan), null, 2) + '\n');
+    });
+}
+
+function parseArguments(args: string[]): any {
+    const parsed: any = {
+        command: 'export',
+        format: 'json'
+    };
+    let i = 0;
+    if (args.length > 0 && !args[0].startsWith('--')) {
+        parsed.command = args[0];
+        i = 1;
+    }
+    for (; i < args.length; ++i) {
+        if (args[i] === '--apply') {
+            parsed.apply = true;
+            continue;
+        }
+        const value = args[i + 1];
+        switch (args[i]) {
+            case '--kong-url':
+                parsed.kongUrl = value;
+                break;
+            case '--format':
+                if (value !== 'json' && value !== 'yaml')
+                    return null;
+                parsed.format = value;
+                break;
+            case '--output':
+                parsed.output = value;
+                break;
+            case '--input':
+                parsed.input = value;
+                break;
+            case '--ignore-rules':
+                parsed.ignoreRules = value;
+                break;
+            default:
+                return null;
+        }
+        if (!value)
+            return null;
+        ++i;
+    }
+    return parsed;
+}
+
+function usage() {
+    console.error('Usage: node dist/bin/kong-snapshot.js export [--kong-url <url>] [--format json|yaml] [--output <file>] [--ignore-rules <file>]');
+    console.error('       node dist/bin/kong-snapshot.js restore --input <file> [--kong-url <url>] [--apply] [--ignore-rules <file>]');
+}
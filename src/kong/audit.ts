@@ -0,0 +1,291 @@
+'use strict';
+
+const async = require('async');
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:audit');
+const fs = require('fs');
+const path = require('path');
+const asyncHooks = require('async_hooks');
+const readline = require('readline');
+
+import { Callback } from 'wicked-sdk';
+import { AuditContext, AuditRecord, AuditQuery } from './types';
+import { secrets } from './secrets';
+
+// The audit journal is written as JSON lines into a set of rotating files:
+// audit.log is the current file, audit.log.1 the next older one, and so on.
+const AUDIT_LOG_DIR = process.env.AUDIT_LOG_DIR || path.join(__dirname, '..', '..', 'audit');
+const AUDIT_LOG_FILE = 'audit.log';
+const AUDIT_LOG_MAX_SIZE = (Number(process.env.AUDIT_LOG_MAX_SIZE_MB) || 10) * 1024 * 1024;
+const AUDIT_LOG_MAX_FILES = Number(process.env.AUDIT_LOG_MAX_FILES) || 10;
+const AUDIT_QUERY_DEFAULT_LIMIT = 1000;
+
+// ===== PUBLIC INTERFACE =====
+
+export const audit = {
+    /**
+     * Runs "work" with the given audit context; all changes made to Kong while
+     * the work is in progress are recorded with this context. Properties which are
+     * not set in the context are inherited from the surrounding context.
+     *
+     * The context follows the asynchronous calls made by "work" (using async_hooks),
+     * so that work which runs concurrently (e.g. webhook events for different
+     * applications) is recorded with the correct context.
+     */
+    runWithContext: function (context: AuditContext, work: (callback: Callback<any>) => void, callback: Callback<any>): void {
+        enableContextTracking();
+        // The callback is called in the scope of the caller, i.e. with the caller's context
+        const callerScope = new asyncHooks.AsyncResource('KongAdapterAuditCallback');
+        const workScope = new asyncHooks.AsyncResource('KongAdapterAudit');
+        _contexts.set(workScope.asyncId(), Object.assign({}, audit.getContext(), context));
+        workScope.runInAsyncScope(() => work(function (err, result) {
+            workScope.emitDestroy();
+            callerScope.runInAsyncScope(() => callback(err, result));
+            callerScope.emitDestroy();
+        }));
+    },
+
+    getContext: function (): AuditContext {
+        return _contexts.get(asyncHooks.executionAsyncId()) || {};
+    },
+
+    /**
+     * Appends a record of a changing call to Kong to the audit journal. Failing to
+     * write the journal is logged, but never makes the Kong call fail. Pass the
+     * context which was current when the call was made; it defaults to the current
+     * context.
+     */
+    record: function (method: string, url: string, body: any, statusCode: number, err: any, duration: number, context?: AuditContext): void {
+        context = context || audit.getContext();
+        const record: AuditRecord = Object.assign({
+            date: new Date().toISOString(),
+            method: method,
+            url: url,
+            body: url === 'config' ? summarizeDeclarativeConfig(body) : secrets.redact(body),
+            trigger: context.trigger || 'unknown',
+            eventId: context.eventId,
+            correlationId: context.correlationId,
+            success: !err,
+            statusCode: statusCode,
+            error: err ? err.message : undefined,
+            duration: duration
+        }, describeEntity(url, body));
+        try {
+            appendRecord(JSON.stringify(record) + '\n');
+        } catch (writeErr) {
+            error(`Could not write audit record for ${method} ${url}`);
+            error(writeErr);
+        }
+    },
+
+    /**
+     * Reads the audit journal (including the rotated files) and returns the records
+     * matching the query, newest first. The files are read line by line, starting
+     * with the current file, and older files are only read until "limit" records
+     * are found.
+     */
+    query: function (query: AuditQuery, callback: Callback<AuditRecord[]>): void {
+        debug('query()');
+        const fileNames = [AUDIT_LOG_FILE];
+        for (let i = 1; i < AUDIT_LOG_MAX_FILES; ++i)
+            fileNames.push(`${AUDIT_LOG_FILE}.${i}`);
+
+        const limit = query.limit || AUDIT_QUERY_DEFAULT_LIMIT;
+        const records: AuditRecord[] = [];
+        async.eachSeries(fileNames, function (fileName, callback) {
+            if (records.length >= limit)
+                return callback(null);
+            // Within a file, the newest records come last
+            readMatchingRecords(fileName, query, limit - records.length, function (err, fileRecords) {
+                if (err)
+                    return callback(err);
+                for (let i = fileRecords.length - 1; i >= 0; --i)
+                    records.push(fileRecords[i]);
+                return callback(null);
+            });
+        }, function (err) {
+            if (err)
+                return callback(err);
+            return callback(null, records);
+        });
+    }
+};
+
+// ===== INTERNALS =====
+
+// Maps async IDs to the audit context they were created in
+const _contexts = new Map<number, AuditContext>();
+let _contextHook = null;
+let _currentSize = -1;
+
+function enableContextTracking(): void {
+    if (_contextHook)
+        return;
+    _contextHook = asyncHooks.createHook({
+        init: function (asyncId: number) {
+            const context = _contexts.get(asyncHooks.executionAsyncId());
+            if (context)
+                _contexts.set(asyncId, context);
+        },
+        destroy: function (asyncId: number) {
+            _contexts.delete(asyncId);
+        }
+    });
+    _contextHook.enable();
+}
+
+function appendRecord(line: string): void {
+    const fileName = path.join(AUDIT_LOG_DIR, AUDIT_LOG_FILE);
+    if (_currentSize < 0) {
+        if (!fs.existsSync(AUDIT_LOG_DIR)) {
+            info(`Creating audit log directory ${AUDIT_LOG_DIR}`);
+            fs.mkdirSync(AUDIT_LOG_DIR, { recursive: true });
+        }
+        _currentSize = fs.existsSync(fileName) ? fs.statSync(fileName).size : 0;
+    }
+    if (_currentSize > 0 && _currentSize + line.length > AUDIT_LOG_MAX_SIZE) {
+        rotateFiles();
+        _currentSize = 0;
+    }
+    fs.appendFileSync(fileName, line, 'utf8');
+    _currentSize += Buffer.byteLength(line, 'utf8');
+}
+
+function rotateFiles(): void {
+    debug('rotateFiles()');
+    const base = path.join(AUDIT_LOG_DIR, AUDIT_LOG_FILE);
+    const oldest = `${base}.${AUDIT_LOG_MAX_FILES - 1}`;
+    if (fs.existsSync(oldest))
+        fs.unlinkSync(oldest);
+    for (let i = AUDIT_LOG_MAX_FILES - 2; i > 0; --i) {
+        if (fs.existsSync(`${base}.${i}`))
+            fs.renameSync(`${base}.${i}`, `${base}.${i + 1}`);
+    }
+    if (AUDIT_LOG_MAX_FILES > 1)
+        fs.renameSync(base, `${base}.1`);
+    else
+        fs.unlinkSync(base);
+}
+
+/**
+ * Reads an audit file line by line and returns the last "maxRecords" records
+ * matching the query, oldest first; a file which does not exist has no records.
+ */
+function readMatchingRecords(fileName: string, query: AuditQuery, maxRecords: number, callback: Callback<AuditRecord[]>): void {
+    const records: AuditRecord[] = [];
+    let done = false;
+    function finish(err) {
+        if (done)
+            return;
+        done = true;
+        if (err && err.code === 'ENOENT')
+            return callback(null, []);
+        if (err)
+            return callback(err);
+        return callback(null, records);
+    }
+    const input = fs.createReadStream(path.join(AUDIT_LOG_DIR, fileName), { encoding: 'utf8' });
+    input.on('error', finish);
+    const lines = readline.createInterface({ input: input, crlfDelay: Infinity });
+    lines.on('line', function (line: string) {
+        if (!line)
+            return;
+        let record: AuditRecord;
+        try {
+            record = JSON.parse(line);
+        } catch (parseErr) {
+            warn(`Skipping invalid line in audit file ${fileName}`);
+            return;
+        }
+        if (!matchesQuery(record, query))
+            return;
+        records.push(record);
+        if (records.length > maxRecords)
+            records.shift();
+    });
+    lines.on('close', () => finish(null));
+}
+
+function matchesQuery(record: AuditRecord, query: AuditQuery): boolean {
+    const time = new Date(record.date).getTime();
+    if (query.from && time < query.from)
+        return false;
+    if (query.to && time > query.to)
+        return false;
+    if (query.entity && record.entity !== query.entity)
+        return false;
+    if (query.id && record.entityId !== query.id && record.consumer !== query.id)
+        return false;
+    if (query.api && record.api !== query.api)
+        return false;
+    return true;
+}
+
+function isUuid(s: string): boolean {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(s);
+}
+
+function apiFromUsername(username: string): string {
+    if (!username)
+        return undefined;
+    const dollarIndex = username.indexOf('$');
+    if (dollarIndex >= 0)
+        return username.substring(dollarIndex + 1);
+    return undefined;
+}
+
+/**
+ * Best effort extraction of what kind of entity a Kong Admin API call refers to.
+ * Kong accepts both IDs and names in the URLs; the API is only known if either
+ * the name is used, or it can be deduced from the body.
+ */
+function describeEntity(url: string, body: any): any {
+    const parts = url.split('?')[0].split('/').filter(p => !!p);
+    const b = body || {};
+    switch (parts[0]) {
+        case 'services':
+            if (parts[2] === 'plugins') {
+                return {
+                    entity: 'plugin',
+                    entityId: parts[3],
+                    api: isUuid(parts[1]) ? undefined : parts[1],
+                    consumer: b.consumer_id,
+                    plugin: b.name
+                };
+            }
+            return {
+                entity: 'service',
+                entityId: parts[1],
+                api: b.name || (parts[1] && !isUuid(parts[1]) ? parts[1] : undefined)
+            };
+        case 'routes':
+            if (parts[2] === 'plugins')
+                return { entity: 'plugin', entityId: parts[3], consumer: b.consumer_id, plugin: b.name };
+            return { entity: 'route', entityId: parts[1] };
+        case 'plugins':
+            return { entity: 'plugin', entityId: parts[1], consumer: b.consumer_id, plugin: b.name };
+        case 'consumers':
+            return {
+                entity: 'consumer',
+                entityId: parts[1] || b.id,
+                consumer: parts[1] || b.username,
+                api: apiFromUsername(b.username),
+                plugin: parts[2]
+            };
+        case 'apis':
+            return { entity: 'api', entityId: parts[1], api: parts[1] };
+    }
+    return { entity: parts[0] || 'kong' };
+}
+
+// The declarative configuration (Kong without database) contains everything,
+// including all credentials; only record what it contained.
+function summarizeDeclarativeConfig(body: any): any {
+    const config = body && body.config;
+    if (!config)
+        return null;
+    return {
+        services: (config.services || []).length,
+        consumers: (config.consumers || []).length,
+        plugins: (config.plugins || []).length
+    };
+}
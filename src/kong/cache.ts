@@ -0,0 +1,272 @@
+'use strict';
+
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:cache');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+import * as utils from './utils';
+import { ConsumerInfo, ConsumerCacheEntry } from './types';
+
+// The portal side consumers (ConsumerInfo) are cached per application, so that a full
+// sync does not have to fetch every application and its subscriptions from the wicked
+// API again. Entries are updated by the webhook events.
+//
+// The consumers contain their credentials, so they are only kept in memory. What is
+// persisted (CONSUMER_CACHE_FILE) are the hashes: of the application as listed by the
+// wicked API (the "signal", which is cheap to get), of its consumers, and of the
+// consumers as they were last synced to Kong, plus the consumer names. An application
+// whose signal is unchanged, whose consumers were synced completely, and whose
+// consumers all still exist in Kong is skipped by the full sync, also after a restart:
+// it is neither fetched nor compared with Kong (see portal.getChangedPortalConsumers).
+// The webhook events of an application reset its signal; entries older than
+// CONSUMER_CACHE_MAX_AGE_MINUTES are compared with Kong again in any case.
+const CONSUMER_CACHE_DISABLED = !!process.env.CONSUMER_CACHE_DISABLED;
+const CONSUMER_CACHE_FILE = process.env.CONSUMER_CACHE_FILE || path.join(__dirname, '..', '..', 'consumer-hashes.json');
+const CONSUMER_CACHE_MAX_AGE = (Number(process.env.CONSUMER_CACHE_MAX_AGE_MINUTES) || 24 * 60) * 60 * 1000;
+const CONSUMER_CACHE_SAVE_DELAY = 5000; // ms
+
+// ===== PUBLIC INTERFACE =====
+
+export const consumerCache = {
+    isEnabled: function (): boolean {
+        return !CONSUMER_CACHE_DISABLED;
+    },
+
+    /**
+     * Returns the cached consumers of an application, or null if the application
+     * is not cached (e.g. after a restart), or its entry is older than the maximum
+     * age. If a signal is given, the entry must have been stored with the same
+     * signal; entries stored without a signal (by the webhook events) take it over.
+     */
+    get: function (appId: string, signal?: string): ConsumerInfo[] {
+        if (CONSUMER_CACHE_DISABLED)
+            return null;
+        loadIfNeeded();
+        const entry = _entries.get(appId);
+        if (entry && entry.consumers && isOutdated(entry.updatedAt)) {
+            debug(`get(${appId}): Entry is outdated`);
+            delete entry.consumers;
+        } else if (entry && entry.consumers && (!signal || !entry.signal || entry.signal === signal)) {
+            if (signal && !entry.signal) {
+                entry.signal = signal;
+                scheduleSave();
+            }
+            _hits++;
+            return utils.clone(entry.consumers);
+        }
+        _misses++;
+        return null;
+    },
+
+    /**
+     * Stores the consumers of an application; returns true if the content differs
+     * from what was cached before. Only complete consumers (no skipped subscriptions,
+     * no unresolved placeholders) can be marked as synced later on.
+     */
+    set: function (appId: string, consumers: ConsumerInfo[], signal: string, complete: boolean): boolean {
+        if (CONSUMER_CACHE_DISABLED)
+            return true;
+        loadIfNeeded();
+        const hash = consumerCache.hash(consumers);
+        const previousEntry = _entries.get(appId);
+        _entries.set(appId, {
+            appId: appId,
+            signal: signal || null,
+            hash: hash,
+            complete: complete,
+            usernames: consumers.map(c => c.consumer.username),
+            consumers: utils.clone(consumers),
+            updatedAt: new Date().getTime(),
+            syncedHash: previousEntry ? previousEntry.syncedHash : null,
+            syncedAt: previousEntry ? previousEntry.syncedAt : 0
+        });
+        scheduleSave();
+        return !previousEntry || previousEntry.hash !== hash;
+    },
+
+    /**
+     * True if the consumers of the application need not be fetched, nor compared
+     * with Kong: the signal is the same as when they were fetched, and see isSynced.
+     */
+    isUnchanged: function (appId: string, signal: string, kongUsernames: Set<string>): boolean {
+        if (CONSUMER_CACHE_DISABLED)
+            return false;
+        loadIfNeeded();
+        const entry = _entries.get(appId);
+        if (!entry || !signal || entry.signal !== signal || !consumerCache.isSynced(appId, kongUsernames))
+            return false;
+        _skipped++;
+        return true;
+    },
+
+    /**
+     * True if the current consumers of the application were synced to Kong completely
+     * and not too long ago, and Kong still contains consumers with their names.
+     */
+    isSynced: function (appId: string, kongUsernames: Set<string>): boolean {
+        if (CONSUMER_CACHE_DISABLED)
+            return false;
+        loadIfNeeded();
+        const entry = _entries.get(appId);
+        if (!entry || !entry.syncedHash || entry.syncedHash !== entry.hash || isOutdated(entry.syncedAt))
+            return false;
+        return entry.usernames.every(username => kongUsernames.has(username));
+    },
+
+    /**
+     * Records that the consumers of the given applications were successfully synced.
+     */
+    markSynced: function (appIds: string[]): void {
+        if (CONSUMER_CACHE_DISABLED)
+            return;
+        loadIfNeeded();
+        const now = new Date().getTime();
+        for (let i = 0; i < appIds.length; ++i) {
+            const entry = _entries.get(appIds[i]);
+            if (!entry || !entry.complete)
+                continue;
+            entry.syncedHash = entry.hash;
+            entry.syncedAt = now;
+        }
+        scheduleSave();
+    },
+
+    /**
+     * Drops the cached consumers of an application, and resets its signal, so that
+     * the next sync fetches the application again.
+     */
+    invalidate: function (appId: string): void {
+        if (CONSUMER_CACHE_DISABLED)
+            return;
+        loadIfNeeded();
+        const entry = _entries.get(appId);
+        if (!entry)
+            return;
+        debug(`invalidate(${appId})`);
+        delete entry.consumers;
+        entry.signal = null;
+        scheduleSave();
+    },
+
+    /**
+     * Removes all entries of applications which are not contained in the given list.
+     */
+    retain: function (appIds: string[]): void {
+        if (CONSUMER_CACHE_DISABLED)
+            return;
+        loadIfNeeded();
+        const appIdSet = new Set(appIds);
+        for (let appId of Array.from(_entries.keys())) {
+            if (!appIdSet.has(appId)) {
+                _entries.delete(appId);
+                scheduleSave();
+            }
+        }
+    },
+
+    clear: function (): void {
+        debug('clear()');
+        _entries = new Map<string, ConsumerCacheEntry>();
+        _contextHash = null;
+        _loaded = true;
+        if (!CONSUMER_CACHE_DISABLED)
+            scheduleSave();
+    },
+
+    /**
+     * The consumers of an application also depend on the API plans and the API
+     * definitions; if the hash of those changes, the entire cache is cleared.
+     */
+    checkContext: function (contextHash: string): void {
+        if (CONSUMER_CACHE_DISABLED)
+            return;
+        loadIfNeeded();
+        if (_contextHash === contextHash)
+            return;
+        if (_contextHash)
+            info('API plans or API definitions have changed, clearing consumer cache.');
+        consumerCache.clear();
+        _contextHash = contextHash;
+    },
+
+    hash: function (ob: any): string {
+        return crypto.createHash('sha256').update(JSON.stringify(ob)).digest('hex');
+    },
+
+    getStatistics: function () {
+        return {
+            enabled: !CONSUMER_CACHE_DISABLED,
+            entries: _entries.size,
+            hits: _hits,
+            misses: _misses,
+            skipped: _skipped
+        };
+    }
+};
+
+// ===== INTERNALS =====
+
+let _entries = new Map<string, ConsumerCacheEntry>();
+let _contextHash: string = null;
+let _loaded = false;
+let _saveTimer = null;
+let _hits = 0;
+let _misses = 0;
+let _skipped = 0;
+
+function isOutdated(timestamp: number): boolean {
+    return new Date().getTime() - timestamp > CONSUMER_CACHE_MAX_AGE;
+}
+
+function loadIfNeeded(): void {
+    if (_loaded)
+        return;
+    _loaded = true;
+    try {
+        if (!fs.existsSync(CONSUMER_CACHE_FILE))
+            return;
+        const content = JSON.parse(fs.readFileSync(CONSUMER_CACHE_FILE, 'utf8'));
+        _contextHash = content.contextHash || null;
+        const entries = (content.entries || []) as ConsumerCacheEntry[];
+        for (let i = 0; i < entries.length; ++i)
+            _entries.set(entries[i].appId, entries[i]);
+        info(`Loaded the hashes of ${_entries.size} applications from ${CONSUMER_CACHE_FILE}`);
+    } catch (err) {
+        warn(`Could not load consumer hashes from ${CONSUMER_CACHE_FILE}, starting with an empty cache.`);
+        warn(err);
+        _entries = new Map<string, ConsumerCacheEntry>();
+        _contextHash = null;
+    }
+}
+
+function scheduleSave(): void {
+    if (_saveTimer)
+        return;
+    _saveTimer = setTimeout(function () {
+        _saveTimer = null;
+        save();
+    }, CONSUMER_CACHE_SAVE_DELAY);
+    // Don't keep the process alive just for saving the cache
+    _saveTimer.unref();
+}
+
+// The consumers (and with them the credentials) are never written
+function save(): void {
+    debug('save()');
+    const entries = Array.from(_entries.values()).map(entry => {
+        const persisted = Object.assign({}, entry);
+        delete persisted.consumers;
+        return persisted;
+    });
+    const content = {
+        contextHash: _contextHash,
+        entries: entries
+    };
+    fs.writeFile(CONSUMER_CACHE_FILE, JSON.stringify(content), 'utf8', function (err) {
+        if (err) {
+            error(`Could not save consumer hashes to ${CONSUMER_CACHE_FILE}`);
+            error(err);
+        }
+    });
+}
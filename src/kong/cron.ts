@@ -0,0 +1,125 @@
+'use strict';
+
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:cron');
+
+import { CronSchedule } from './types';
+
+// Cron expressions have the five fields minute, hour, day of month, month and day of
+// week (0 or 7 is Sunday), each "*", a number, a range ("1-5"), a step ("*/15",
+// "0-30/10") or a comma separated list of these, e.g. "0 3 * * 1-5" (at 3:00 on
+// weekdays, local time). As in cron, a day matches if either the day of month or the
+// day of week matches, unless one of them is "*".
+
+// ===== PUBLIC INTERFACE =====
+
+export const cron = {
+    /**
+     * Parses a cron expression; returns null if the expression is invalid.
+     */
+    parse: function (expression: string): CronSchedule {
+        return parseCron(expression.trim());
+    },
+
+    /**
+     * The next time (in ms) after "after" which matches the schedule, or null if
+     * there is none within the next five years.
+     */
+    getNextTime: function (schedule: CronSchedule, after: number): number {
+        return getNextCronTime(schedule, after);
+    }
+};
+
+// ===== INTERNALS =====
+
+const DAY_MILLISECONDS = 24 * 60 * 60 * 1000;
+const CRON_FIELDS = [
+    { name: 'minutes', min: 0, max: 59 },
+    { name: 'hours', min: 0, max: 23 },
+    { name: 'daysOfMonth', min: 1, max: 31 },
+    { name: 'months', min: 1, max: 12 },
+    { name: 'daysOfWeek', min: 0, max: 7 }
+];
+// Cron expressions which never match (e.g. "0 0 31 2 *") are given up after this
+const CRON_MAX_DAYS = 5 * 366;
+
+// Returns null if the expression is invalid
+function parseCron(expression: string): CronSchedule {
+    const fields = expression.split(/\s+/);
+    if (fields.length !== CRON_FIELDS.length)
+        return null;
+    const values: number[][] = [];
+    for (let i = 0; i < fields.length; ++i) {
+        const fieldValues = parseCronField(fields[i], CRON_FIELDS[i].min, CRON_FIELDS[i].max);
+        if (!fieldValues)
+            return null;
+        values.push(fieldValues);
+    }
+    return {
+        expression: expression,
+        minutes: values[0],
+        hours: values[1],
+        daysOfMonth: values[2],
+        months: values[3],
+        // 7 is Sunday as well
+        daysOfWeek: values[4].map(d => d % 7),
+        anyDayOfMonth: fields[2] === '*',
+        anyDayOfWeek: fields[4] === '*'
+    };
+}
+
+function parseCronField(field: string, min: number, max: number): number[] {
+    const values: number[] = [];
+    const parts = field.split(',');
+    for (let i = 0; i < parts.length; ++i) {
+        const match = parts[i].match(/^(\*|([0-9]+)(-([0-9]+))?)(\/([0-9]+))?$/);
+        if (!match)
+            return null;
+        let from = min;
+        let to = max;
+        if (match[2] !== undefined) {
+            from = Number(match[2]);
+            // A single value with a step ("5/15") runs up to the maximum, as in cron
+            to = match[4] !== undefined ? Number(match[4]) : (match[6] !== undefined ? max : from);
+        }
+        const step = match[6] !== undefined ? Number(match[6]) : 1;
+        if (from < min || to > max || from > to || step < 1)
+            return null;
+        for (let value = from; value <= to; value += step)
+            values.push(value);
+    }
+    return values;
+}
+
+function matchesCronDay(cron: CronSchedule, date: Date): boolean {
+    const dayOfMonthMatches = cron.daysOfMonth.indexOf(date.getDate()) >= 0;
+    const dayOfWeekMatches = cron.daysOfWeek.indexOf(date.getDay()) >= 0;
+    if (cron.anyDayOfMonth || cron.anyDayOfWeek)
+        return dayOfMonthMatches && dayOfWeekMatches;
+    return dayOfMonthMatches || dayOfWeekMatches;
+}
+
+// The next time after "after" which matches the cron expression, or null if
+// there is none within CRON_MAX_DAYS
+function getNextCronTime(cron: CronSchedule, after: number): number {
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+    const maxTime = after + CRON_MAX_DAYS * DAY_MILLISECONDS;
+    while (date.getTime() <= maxTime) {
+        if (cron.months.indexOf(date.getMonth() + 1) < 0 || !matchesCronDay(cron, date)) {
+            date.setDate(date.getDate() + 1);
+            date.setHours(0, 0);
+            continue;
+        }
+        if (cron.hours.indexOf(date.getHours()) < 0) {
+            date.setHours(date.getHours() + 1, 0);
+            continue;
+        }
+        if (cron.minutes.indexOf(date.getMinutes()) < 0) {
+            date.setMinutes(date.getMinutes() + 1);
+            continue;
+        }
+        return date.getTime();
+    }
+    return null;
+}
@@ -0,0 +1,144 @@
+'use strict';
+
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:dbless');
+
+import * as wicked from 'wicked-sdk';
+import * as utils from './utils';
+import { pluginValidation } from './validation';
+import { KongPlugin } from 'wicked-sdk';
+import { ApiDescriptionCollection, ConsumerInfo, KongApiConfigCollection, KongOwnership } from './types';
+
+// Kong >= 1.1 is needed for running without a database
+const DECLARATIVE_FORMAT_VERSION = '1.1';
+
+// Maps the consumer plugin names (as in ConsumerInfo.plugins) to the
+// entity names used in Kong's declarative configuration.
+const CREDENTIAL_ENTITIES = {
+    'acls': 'acls',
+    'key-auth': 'keyauth_credentials',
+    'oauth2': 'oauth2_credentials',
+    'basic-auth': 'basicauth_credentials',
+    'hmac-auth': 'hmacauth_credentials'
+};
+
+// Properties Kong generates or which refer to other entities by ID; in the
+// declarative configuration, entities are nested or referenced by name instead.
+const ENTITY_REFERENCES = ['id', 'created_at', 'updated_at', 'api_id', 'service_id', 'route_id', 'consumer_id', 'service', 'route', 'consumer'];
+
+// ===== PUBLIC INTERFACE =====
+
+export const dbless = {
+    /**
+     * Renders the complete desired state into Kong's declarative configuration
+     * format (as used by the /config end point of a Kong without database). As
+     * the configuration replaces everything, invalid plugins (see validation.ts)
+     * are replaced by the matching plugins currently deployed in Kong, so that
+     * these are kept as they are, as with a database.
+     */
+    renderConfig: function (portalApis: ApiDescriptionCollection, portalConsumers: ConsumerInfo[], kongApis: KongApiConfigCollection, kongConsumers: ConsumerInfo[]): any {
+        debug('renderConfig()');
+        const deployedApiPlugins = new Map<string, KongPlugin[]>();
+        kongApis.apis.forEach(kongApi => deployedApiPlugins.set(kongApi.api.name, kongApi.plugins || []));
+        const deployedConsumers = new Map<string, ConsumerInfo>();
+        kongConsumers.forEach(kongConsumer => deployedConsumers.set(kongConsumer.consumer.username, kongConsumer));
+
+        const services = [];
+        for (let i = 0; i < portalApis.apis.length; ++i) {
+            const apiConfig = portalApis.apis[i].config;
+            const { service, routes } = wicked.kongApiToServiceAndRoutes(apiConfig.api);
+            const ownership = { api: apiConfig.api.name };
+            const declarativeService = makeDeclarativeEntity(service, ownership);
+            declarativeService.routes = routes.map(route => makeDeclarativeEntity(route, ownership));
+            const plugins = selectPlugins(apiConfig.plugins || [], deployedApiPlugins.get(apiConfig.api.name) || [], null, `API ${apiConfig.api.name}`);
+            declarativeService.plugins = plugins.map(plugin => makeDeclarativeEntity(utils.makeKongPlugin(plugin, ownership), ownership));
+            services.push(declarativeService);
+        }
+
+        // The global plugins; see also sync.addPrometheusPlugin()
+        const plugins: any[] = [makeDeclarativeEntity({ name: 'prometheus', enabled: true }, {})];
+        const consumers = [];
+        for (let i = 0; i < portalConsumers.length; ++i) {
+            const portalConsumer = portalConsumers[i];
+            const username = portalConsumer.consumer.username;
+            const ownership = utils.getConsumerOwnership(portalConsumer.consumer);
+            const declarativeConsumer = makeDeclarativeEntity(portalConsumer.consumer, ownership);
+            for (let pluginName in portalConsumer.plugins) {
+                const entityName = CREDENTIAL_ENTITIES[pluginName];
+                if (!entityName) {
+                    warn(`renderConfig: Unknown consumer plugin ${pluginName} for consumer ${username}, skipping.`);
+                    continue;
+                }
+                declarativeConsumer[entityName] = portalConsumer.plugins[pluginName].map(credential => {
+                    const declarativeCredential = makeDeclarativeEntity(credential, ownership);
+                    // Kong >= 1.0 calls this "redirect_uris"
+                    if (pluginName === 'oauth2' && declarativeCredential.redirect_uri) {
+                        declarativeCredential.redirect_uris = declarativeCredential.redirect_uri;
+                        delete declarativeCredential.redirect_uri;
+                    }
+                    return declarativeCredential;
+                });
+            }
+            consumers.push(declarativeConsumer);
+
+            // Consumer specific API plugins reference both the consumer and the service
+            const apiName = utils.extractApiName(username);
+            const deployedConsumer = deployedConsumers.get(username);
+            const apiPlugins = deployedConsumer ?
+                selectPlugins(portalConsumer.apiPlugins || [], deployedConsumer.apiPlugins || [], deployedConsumer.consumer.id, `consumer ${username}`) :
+                (portalConsumer.apiPlugins || []).filter(pluginValidation.isValid);
+            for (let p = 0; p < apiPlugins.length; ++p) {
+                const apiPlugin = makeDeclarativeEntity(utils.makeKongPlugin(apiPlugins[p], ownership), ownership);
+                apiPlugin.consumer = username;
+                if (apiName)
+                    apiPlugin.service = apiName;
+                plugins.push(apiPlugin);
+            }
+        }
+
+        return {
+            _format_version: DECLARATIVE_FORMAT_VERSION,
+            services: services,
+            consumers: consumers,
+            plugins: plugins
+        };
+    }
+};
+
+// ===== INTERNALS =====
+
+/**
+ * The plugins to render: the valid portal plugins, and for each invalid one, the
+ * matching plugin which is deployed in Kong, if any (matched by identity, see
+ * utils.getPluginIdentity). The consumer ID is the default scope of the portal
+ * plugins (for consumer API plugins).
+ */
+function selectPlugins(portalPlugins: KongPlugin[], deployedPlugins: KongPlugin[], consumerId: string, owner: string): KongPlugin[] {
+    const unmatched = deployedPlugins.slice();
+    const plugins: KongPlugin[] = [];
+    for (let i = 0; i < portalPlugins.length; ++i) {
+        const portalPlugin = portalPlugins[i];
+        if (pluginValidation.isValid(portalPlugin)) {
+            plugins.push(portalPlugin);
+            continue;
+        }
+        const identity = utils.getPluginIdentity(portalPlugin, { consumer: consumerId });
+        const deployedIndex = unmatched.findIndex(p => utils.getPluginIdentity(p) === identity);
+        if (deployedIndex < 0) {
+            warn(`renderConfig: Skipping invalid plugin ${portalPlugin.name} of ${owner}; it is not deployed yet.`);
+            continue;
+        }
+        warn(`renderConfig: Keeping the deployed plugin ${portalPlugin.name} of ${owner}, as the configured one is invalid.`);
+        plugins.push(unmatched[deployedIndex]);
+        unmatched.splice(deployedIndex, 1);
+    }
+    return plugins;
+}
+
+// Strips the references and adds the ownership tags
+function makeDeclarativeEntity(entity: any, ownership: KongOwnership): any {
+    const stripped = utils.clone(entity);
+    for (let i = 0; i < ENTITY_REFERENCES.length; ++i)
+        delete stripped[ENTITY_REFERENCES[i]];
+    utils.tagEntity(stripped, ownership);
+    return stripped;
+}
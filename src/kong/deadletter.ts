@@ -0,0 +1,110 @@
+'use strict';
+
+const async = require('async');
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:deadletter');
+const fs = require('fs');
+const path = require('path');
+
+import { Callback, ErrorCallback, WickedEvent } from 'wicked-sdk';
+import { DeadLetter } from './types';
+
+// Webhook events which could not be processed, even after retrying, are stored
+// here (one file per event), so that processing the other events can continue.
+const DEAD_LETTER_DIR = process.env.DEAD_LETTER_DIR || path.join(__dirname, '..', '..', 'deadletters');
+
+// ===== PUBLIC INTERFACE =====
+
+export const deadLetters = {
+    add: function (event: WickedEvent, err: any, attempts: number, callback: ErrorCallback): void {
+        debug(`add(${event.id})`);
+        warn(`Moving event ${event.action} ${event.entity} (${event.id}) to the dead letter store after ${attempts} attempts.`);
+        ensureDir(function (dirErr) {
+            if (dirErr)
+                return callback(dirErr);
+            readDeadLetter(event.id, function (readErr, previous) {
+                const now = new Date().toISOString();
+                const deadLetter: DeadLetter = {
+                    eventId: event.id,
+                    event: event,
+                    error: err ? (err.message || String(err)) : 'Unknown error',
+                    attempts: attempts + (previous ? previous.attempts : 0),
+                    firstFailedAt: previous ? previous.firstFailedAt : now,
+                    lastFailedAt: now
+                };
+                fs.writeFile(getFileName(event.id), JSON.stringify(deadLetter, null, 2), 'utf8', callback);
+            });
+        });
+    },
+
+    list: function (callback: Callback<DeadLetter[]>): void {
+        debug('list()');
+        fs.readdir(DEAD_LETTER_DIR, function (err, fileNames) {
+            if (err && err.code === 'ENOENT')
+                return callback(null, []);
+            if (err)
+                return callback(err);
+            const eventIds = fileNames.filter(f => f.endsWith('.json')).map(f => f.substring(0, f.length - 5));
+            async.mapSeries(eventIds, readDeadLetter, function (err, deadLetterList: DeadLetter[]) {
+                if (err)
+                    return callback(err);
+                const existing = deadLetterList.filter(d => !!d);
+                existing.sort((a, b) => a.firstFailedAt < b.firstFailedAt ? -1 : 1);
+                return callback(null, existing);
+            });
+        });
+    },
+
+    /**
+     * Returns the dead letter for the given event ID, or null if there is none.
+     */
+    get: function (eventId: string, callback: Callback<DeadLetter>): void {
+        debug(`get(${eventId})`);
+        if (!isValidEventId(eventId))
+            return callback(null, null);
+        readDeadLetter(eventId, callback);
+    },
+
+    remove: function (eventId: string, callback: ErrorCallback): void {
+        debug(`remove(${eventId})`);
+        if (!isValidEventId(eventId))
+            return callback(null);
+        fs.unlink(getFileName(eventId), function (err) {
+            if (err && err.code !== 'ENOENT')
+                return callback(err);
+            return callback(null);
+        });
+    }
+};
+
+// ===== INTERNALS =====
+
+// The event IDs are used as file names
+function isValidEventId(eventId: string): boolean {
+    return /^[a-zA-Z0-9_\-]+$/.test(eventId);
+}
+
+function getFileName(eventId: string): string {
+    return path.join(DEAD_LETTER_DIR, `${eventId}.json`);
+}
+
+function ensureDir(callback: ErrorCallback): void {
+    if (fs.existsSync(DEAD_LETTER_DIR))
+        return callback(null);
+    info(`Creating dead letter directory ${DEAD_LETTER_DIR}`);
+    fs.mkdir(DEAD_LETTER_DIR, { recursive: true }, callback);
+}
+
+function readDeadLetter(eventId: string, callback: Callback<DeadLetter>): void {
+    fs.readFile(getFileName(eventId), 'utf8', function (err, content) {
+        if (err && err.code === 'ENOENT')
+            return callback(null, null);
+        if (err)
+            return callback(err);
+        try {
+            return callback(null, JSON.parse(content));
+        } catch (parseErr) {
+            warn(`Dead letter file for event ${eventId} is invalid.`);
+            return callback(null, null);
+        }
+    });
+}
@@ -0,0 +1,158 @@
+'use strict';
+
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:ignore');
+const fs = require('fs');
+
+import * as wicked from 'wicked-sdk';
+import { ErrorCallback } from 'wicked-sdk';
+import { IgnoreRule, IgnoreRuleStatus, IgnoreScope } from './types';
+
+// Entities in Kong matching one of these rules are neither updated nor deleted by
+// the adapter. The rules are given as a JSON array of IgnoreRule objects, either
+// directly in IGNORE_RULES, or in a file (IGNORE_RULES_FILE), e.g.:
+//
+//   [{ "scope": "services", "pattern": "manual-*" },
+//    { "scope": "api-plugins", "pattern": "/^request-(transformer|termination)$/", "apis": ["petstore"] }]
+//
+// The plugin names in the ignore list of the wicked globals (kongAdapter.ignoreList)
+// are added as exact "api-plugins" rules.
+const IGNORE_RULES = process.env.IGNORE_RULES;
+const IGNORE_RULES_FILE = process.env.IGNORE_RULES_FILE;
+
+const IGNORE_SCOPES: IgnoreScope[] = ['services', 'routes', 'consumers', 'global-plugins', 'api-plugins'];
+
+interface CompiledRule {
+    status: IgnoreRuleStatus,
+    regex: RegExp
+}
+
+// ===== PUBLIC INTERFACE =====
+
+export const ignoreRules = {
+    /**
+     * Reads and validates the rules; needs the wicked globals, so call this after
+     * wicked.initialize(). Invalid rules are an error, as a typo could otherwise
+     * lead to deleting the entities which were meant to be ignored. Until the
+     * rules are read, no entity is ignored.
+     */
+    init: function (callback: ErrorCallback): void {
+        debug('init()');
+        initRules(() => loadRules(true, IGNORE_RULES_FILE), callback);
+    },
+
+    /**
+     * Like init(), but without the ignore list of the wicked globals, for tools
+     * which run without the portal (see bin/kong-snapshot.ts). A rules file given
+     * here is used instead of IGNORE_RULES_FILE.
+     */
+    initWithoutPortal: function (rulesFile: string, callback: ErrorCallback): void {
+        debug('initWithoutPortal()');
+        initRules(() => loadRules(false, rulesFile || IGNORE_RULES_FILE), callback);
+    },
+
+    /**
+     * Returns true if the entity with the given name is to be left alone by the
+     * adapter. The API name is needed for rules which are limited to certain APIs;
+     * for services, it is the name of the service itself.
+     */
+    isIgnored: function (scope: IgnoreScope, name: string, apiName?: string): boolean {
+        if (!name)
+            return false;
+        const rules = getRules();
+        for (let i = 0; i < rules.length; ++i) {
+            const rule = rules[i];
+            if (rule.status.scope !== scope)
+                continue;
+            if (rule.status.apis && rule.status.apis.indexOf(apiName) < 0)
+                continue;
+            if (rule.regex.test(name)) {
+                debug(`Ignoring ${scope} entity ${name} (pattern ${rule.status.pattern})`);
+                rule.status.matches++;
+                return true;
+            }
+        }
+        return false;
+    },
+
+    /**
+     * The active rules, including how often each of them matched since the start
+     * of the adapter.
+     */
+    getStatus: function (): IgnoreRuleStatus[] {
+        return getRules().map(rule => Object.assign({}, rule.status));
+    }
+};
+
+// ===== INTERNALS =====
+
+let _rules: CompiledRule[] = null;
+
+// Until init() has run, there are no rules; the wicked globals are only read in init()
+function getRules(): CompiledRule[] {
+    return _rules || [];
+}
+
+function initRules(load: () => CompiledRule[], callback: ErrorCallback): void {
+    try {
+        _rules = load();
+    } catch (err) {
+        error('Invalid ignore rules: ' + err.message);
+        return callback(err);
+    }
+    if (_rules.length > 0)
+        info(`Using ${_rules.length} ignore rules.`);
+    return callback(null);
+}
+
+function loadRules(withGlobals: boolean, rulesFile: string): CompiledRule[] {
+    const rules: CompiledRule[] = [];
+    if (withGlobals) {
+        const legacyList = wicked.getKongAdapterIgnoreList();
+        for (let i = 0; i < legacyList.length; ++i)
+            rules.push(compileRule({ scope: 'api-plugins', pattern: legacyList[i] }, 'globals', true));
+    }
+    if (IGNORE_RULES)
+        addRules(rules, JSON.parse(IGNORE_RULES), 'IGNORE_RULES');
+    if (rulesFile)
+        addRules(rules, JSON.parse(fs.readFileSync(rulesFile, 'utf8')), rulesFile);
+    return rules;
+}
+
+function addRules(rules: CompiledRule[], ruleList: IgnoreRule[], source: string): void {
+    if (!Array.isArray(ruleList))
+        throw new Error(`Ignore rules in ${source} must be an array.`);
+    for (let i = 0; i < ruleList.length; ++i)
+        rules.push(compileRule(ruleList[i], source, false));
+}
+
+function compileRule(rule: IgnoreRule, source: string, exactMatch: boolean): CompiledRule {
+    if (!rule || IGNORE_SCOPES.indexOf(rule.scope) < 0)
+        throw new Error(`Ignore rule in ${source} has an invalid scope; use one of ${IGNORE_SCOPES.join(', ')}.`);
+    if (!rule.pattern || typeof rule.pattern !== 'string')
+        throw new Error(`Ignore rule in ${source} (scope ${rule.scope}) does not have a pattern.`);
+    if (rule.apis && !Array.isArray(rule.apis))
+        throw new Error(`Ignore rule ${rule.pattern} in ${source}: "apis" must be an array.`);
+    return {
+        status: {
+            scope: rule.scope,
+            pattern: rule.pattern,
+            apis: rule.apis,
+            description: rule.description,
+            source: source,
+            matches: 0
+        },
+        regex: exactMatch ? new RegExp('^' + escapeRegex(rule.pattern) + '$') : patternToRegex(rule.pattern)
+    };
+}
+
+function patternToRegex(pattern: string): RegExp {
+    const regexMatch = pattern.match(/^\/(.*)\/([imsu]*)$/);
+    if (regexMatch)
+        return new RegExp(regexMatch[1], regexMatch[2]);
+    const glob = pattern.split('*').map(part => part.split('?').map(escapeRegex).join('.')).join('.*');
+    return new RegExp('^' + glob + '$');
+}
+
+function escapeRegex(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+}
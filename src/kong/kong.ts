@@ -3,10 +3,13 @@
 const async = require('async');
 const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:kong');
 const qs = require('querystring');
+const crypto = require('crypto');
 
 import * as utils from './utils';
-import { KongCollection, KongConsumer, KongPlugin, Callback, ErrorCallback, KongApiConfig } from 'wicked-sdk';
-import { KongApiConfigCollection, UpdateApiItem, DeleteApiItem, AddApiItem, AddPluginItem, UpdatePluginItem, DeletePluginItem, ConsumerInfo, AddConsumerItem, UpdateConsumerItem, DeleteConsumerItem, ConsumerApiPluginAddItem, ConsumerApiPluginPatchItem, ConsumerApiPluginDeleteItem, ConsumerPlugin } from './types';
+import { ignoreRules } from './ignore';
+import { pluginValidation } from './validation';
+import { KongCollection, KongConsumer, KongPlugin, Callback, ErrorCallback, KongApiConfig, KongService } from 'wicked-sdk';
+import { KongApiConfigCollection, UpdateApiItem, DeleteApiItem, AddApiItem, AddPluginItem, UpdatePluginItem, DeletePluginItem, ConsumerInfo, AddConsumerItem, UpdateConsumerItem, DeleteConsumerItem, ConsumerApiPluginAddItem, ConsumerApiPluginPatchItem, ConsumerApiPluginDeleteItem, ConsumerPlugin, ConsumerBasicAuthConfig, ConsumerPluginTodos, KongConsumerPlugins, KongOwnership, KongTaggedEntity, CompareOptions, ObjectDiff, RoutePluginTodo, SnapshotPlugin } from './types';
 
 // The maximum number of async I/O calls we fire off against
 // the Kong instance for one single call.
@@ -45,8 +48,10 @@ export const kong = {
                     return callback(err);
 
                 // Plugins which are referring to consumers are not global, and must not be taken
-                // into account when comparing.
+                // into account when comparing. Plugins on routes are not managed by the adapter
+                // at all (the portal configuration cannot refer to routes), and are left alone.
                 apiList = removeKongConsumerPlugins(apiList);
+                apiList = removeKongRoutePlugins(apiList);
 
                 return callback(null, apiList);
             });
@@ -72,6 +77,9 @@ export const kong = {
 
                 const addList = [];
                 for (let i = 0; i < addItem.portalApi.config.plugins.length; ++i) {
+                    // Invalid plugins are reported by the validation, see validation.ts
+                    if (!pluginValidation.isValid(addItem.portalApi.config.plugins[i]))
+                        continue;
                     addList.push({
                         portalApi: addItem,
                         portalPlugin: addItem.portalApi.config.plugins[i],
@@ -103,11 +111,12 @@ export const kong = {
 
             debug('portalApi: ' + JSON.stringify(portalApi.config.api, null, 2));
             debug('kongApi: ' + JSON.stringify(kongApi.api, null, 2));
-            const apiUpdateNeeded = !utils.matchObjects(portalApi.config.api, kongApi.api);
+            // The diff also contains the ownership tags of APIs which are adopted
+            const apiUpdateNeeded = updateItem.diff.length > 0;
 
             if (apiUpdateNeeded) {
                 debug("API '" + portalApi.name + "' does not match.");
-                info(`Detected change, patching API definition for API ${portalApi.name} (${kongApi.api.id})`);
+                info(`Detected change, patching API definition for API ${portalApi.name} (${kongApi.api.id}): ${utils.getDiffText(updateItem.diff)}`);
                 utils.kongPatchApi(kongApi.api.id, portalApi.config.api, function (err, patchResult) {
                     if (err)
                         return callback(err);
@@ -136,7 +145,7 @@ export const kong = {
         // - kongApi
         async.eachSeries(deleteList, function (deleteItem: DeleteApiItem, callback) {
             info(`Detected unused API ${deleteItem.kongApi.api.name} (${deleteItem.kongApi.api.name}), deleting from Kong.`);
-            utils.kongDeleteApi(deleteItem.kongApi.api.id, callback);
+            utils.kongDeleteApi(deleteItem.kongApi.api.id, deleteItem.kongApi.api.name, callback);
         }, function (err) {
             if (err)
                 return done(err);
@@ -157,7 +166,8 @@ export const kong = {
         // - kongApi: Kong's API representation (for ids)
         async.eachSeries(addList, function (addItem: AddPluginItem, callback) {
             info(`Adding plugin "${addItem.portalPlugin.name}" for API ${addItem.kongApi.api.name} (${addItem.kongApi.api.id})`)
-            utils.kongPostApiPlugin(addItem.kongApi.api.id, addItem.portalPlugin, callback);
+            const plugin = utils.makeKongPlugin(addItem.portalPlugin, { api: addItem.kongApi.api.name });
+            utils.kongPostApiPlugin(addItem.kongApi.api.id, plugin, callback);
         }, function (err) {
             if (err)
                 return done(err);
@@ -178,8 +188,11 @@ export const kong = {
         // - kongApi: Kong's API representation (for ids)
         // - kongPlugin: Kong's Plugin representation (for ids)
         async.eachSeries(updateList, function (updateItem: UpdatePluginItem, callback) {
-            info(`Detected change in plugin "${updateItem.portalPlugin.name}" for API ${updateItem.kongApi.api.name} (${updateItem.kongApi.api.id}), patching`);
-            utils.kongPatchApiPlugin(updateItem.kongApi.api.id, updateItem.kongPlugin.id, updateItem.portalPlugin, callback);
+            info(`Detected change in plugin "${updateItem.portalPlugin.name}" for API ${updateItem.kongApi.api.name} (${updateItem.kongApi.api.id}), patching: ${utils.getDiffText(updateItem.diff)}`);
+            const plugin = utils.makeKongPlugin(updateItem.portalPlugin, { api: updateItem.kongApi.api.name });
+            // A PATCH leaves properties alone which are not sent; reset the removed ones explicitly
+            resetRemovedProperties(plugin, updateItem.diff);
+            utils.kongPatchApiPlugin(updateItem.kongApi.api.id, updateItem.kongPlugin.id, plugin, callback);
         }, function (err) {
             if (err)
                 return done(err);
@@ -207,6 +220,41 @@ export const kong = {
         });
     },
 
+    /**
+     * Adds or patches the route specific plugins of a snapshot (see
+     * snapshot.assembleRoutePluginTodos); the routes and consumers have to exist.
+     */
+    restoreRoutePlugins: function (todos: RoutePluginTodo[], done: ErrorCallback): void {
+        if (todos.length === 0) {
+            setTimeout(done, 0);
+            return;
+        }
+        debug('restoreRoutePlugins()');
+        async.eachSeries(todos, function (todo: RoutePluginTodo, callback) {
+            const description = `plugin "${todo.snapshotPlugin.name}" on route ${JSON.stringify(todo.snapshotPlugin.route_scope)} of API ${todo.api}` + (todo.consumer ? ` for consumer ${todo.consumer}` : '');
+            if (!todo.routeId)
+                return callback(new Error(`Cannot restore ${description}: Kong does not have this route.`));
+            if (todo.consumer && !todo.consumerId)
+                return callback(new Error(`Cannot restore ${description}: Kong does not have this consumer.`));
+            const plugin: SnapshotPlugin = utils.clone(todo.snapshotPlugin);
+            delete plugin.route_scope;
+            if (todo.consumerId)
+                plugin.consumer_id = todo.consumerId;
+            if (todo.kongPlugin) {
+                info(`Patching ${description}: ${utils.getDiffText(todo.diff)}`);
+                // A PATCH leaves properties alone which are not sent; reset the removed ones explicitly
+                resetRemovedProperties(plugin, todo.diff);
+                return utils.kongPatchPlugin(todo.kongPlugin.id, plugin, callback);
+            }
+            info(`Adding ${description}`);
+            utils.kongPostRoutePlugin(todo.routeId, plugin, callback);
+        }, function (err) {
+            if (err)
+                return done(err);
+            done(null);
+        });
+    },
+
     // ======= CONSUMERS =======
 
     /*
@@ -264,22 +312,37 @@ export const kong = {
 
     getAllKongConsumers: function (callback: Callback<ConsumerInfo[]>): void {
         debug('getAllKongConsumers()');
-        utils.kongGetAllConsumers(function (err, allConsumers) {
+        // Read the consumers, all credentials and all consumer API plugins collection
+        // by collection, and join them in memory; this is a lot cheaper than reading
+        // the credentials and plugins consumer by consumer.
+        async.parallel({
+            consumers: callback => utils.kongGetAllConsumers(callback),
+            consumerPlugins: callback => getAllConsumerPlugins(callback),
+            consumerApiPlugins: callback => getAllConsumerApiPlugins(callback)
+        }, function (err, results) {
             if (err)
                 return callback(err);
+            const allConsumers = results.consumers as KongCollection<KongConsumer>;
+            const consumerPlugins = results.consumerPlugins as Map<string, KongConsumerPlugins>;
+            const consumerApiPlugins = results.consumerApiPlugins as Map<string, Map<string, KongPlugin[]>>;
+
             const kongConsumerInfos: ConsumerInfo[] = [];
-            async.eachLimit(allConsumers.data, MAX_PARALLEL_CALLS, function (kongConsumer: KongConsumer, callback) {
-                enrichConsumerInfo(kongConsumer, function (err, consumerInfo) {
-                    if (err)
-                        return callback(err);
-                    kongConsumerInfos.push(consumerInfo);
-                    return callback(null);
+            for (let i = 0; i < allConsumers.data.length; ++i) {
+                const kongConsumer = allConsumers.data[i];
+                // The API plugins are only taken into account for the API the consumer belongs to
+                const apiName = utils.extractApiName(kongConsumer.username);
+                const apiPluginsByApi = consumerApiPlugins.get(kongConsumer.id);
+                let apiPlugins: KongPlugin[] = [];
+                if (apiName && apiPluginsByApi && apiPluginsByApi.has(apiName))
+                    apiPlugins = apiPluginsByApi.get(apiName);
+                kongConsumerInfos.push({
+                    consumer: kongConsumer,
+                    plugins: consumerPlugins.get(kongConsumer.id) || {},
+                    apiPlugins: apiPlugins
                 });
-            }, function (err) {
-                if (err)
-                    return callback(err);
-                return callback(null, kongConsumerInfos);
-            });
+            }
+            debug(`getAllKongConsumers(): Read ${kongConsumerInfos.length} consumers.`);
+            return callback(null, kongConsumerInfos);
         });
     },
 
@@ -308,7 +371,7 @@ export const kong = {
         }
         debug('patchKongConsumerApiPlugins()');
         async.eachSeries(patchList, function (patchItem: ConsumerApiPluginPatchItem, patchCallback) {
-            info(`Patching API plugin ${patchItem.portalApiPlugin.name} for consumer ${patchItem.portalConsumer.consumer.username}`);
+            info(`Patching API plugin ${patchItem.portalApiPlugin.name} for consumer ${patchItem.portalConsumer.consumer.username}: ${utils.getDiffText(patchItem.diff)}`);
             patchKongConsumerApiPlugin(patchItem.portalConsumer, patchItem.kongConsumer, patchItem.portalApiPlugin, patchItem.kongApiPlugin, patchCallback);
         }, function (err) {
             if (err)
@@ -390,6 +453,10 @@ export const kong = {
 
     deleteConsumerWithUsername: function (username: string, callback: ErrorCallback): void {
         debug('deleteConsumer() - username: ' + username);
+        if (ignoreRules.isIgnored('consumers', username, utils.extractApiName(username))) {
+            info(`Consumer with username ${username} is ignored, not deleting it.`);
+            return callback(null);
+        }
         utils.kongGetConsumerByName(username, function (err, kongConsumer) {
             if (err) {
                 // Gracefully accept if already deleted
@@ -399,6 +466,10 @@ export const kong = {
                 }
                 return callback(err);
             }
+            if (!isDeletableConsumer(kongConsumer)) {
+                warn(`Consumer with username ${username} (id ${kongConsumer.id}) is not tagged as managed by wicked, not deleting it.`);
+                return callback(null);
+            }
             info(`Deleting consumer with username ${username} (id ${kongConsumer.id})`);
             utils.kongDeleteConsumer(kongConsumer.id, callback);
         });
@@ -418,7 +489,11 @@ export const kong = {
                 warn('Multiple consumers with custom_id ' + customId + ' found, killing them all.');
             // This should be just one call, but the consumer is in an array, so this does not hurt.
             info(`Deleting consumers with custom ID ${customId}`);
-            async.map(consumerList.data, (consumer, callback) => utils.kongDeleteConsumer(consumer.id, callback), function (err, results) {
+            const deleteList = consumerList.data.filter(c => !ignoreRules.isIgnored('consumers', c.username, utils.extractApiName(c.username)));
+            deleteList.filter(c => !isDeletableConsumer(c)).forEach(c => {
+                warn(`Consumer with username ${c.username} (id ${c.id}) is not tagged as managed by wicked, not deleting it.`);
+            });
+            async.map(deleteList.filter(isDeletableConsumer), (consumer, callback) => utils.kongDeleteConsumer(consumer.id, callback), function (err, results) {
                 if (err)
                     return callback(err);
                 callback(null);
@@ -426,6 +501,38 @@ export const kong = {
         });
     },
 
+    /**
+     * Compares the consumer plugins (credentials and ACLs) of a portal consumer with
+     * the ones present in Kong, and returns the names of the consumer plugins which
+     * have to be added, updated (deleted and re-added) or deleted.
+     */
+    assembleConsumerPluginTodoLists: function (portalConsumer: ConsumerInfo, kongConsumer: ConsumerInfo): ConsumerPluginTodos {
+        debug('assembleConsumerPluginTodoLists() for ' + portalConsumer.consumer.username);
+        const addList: string[] = [];
+        const updateList: string[] = [];
+        const deleteList: string[] = [];
+        for (let i = 0; i < CONSUMER_PLUGINS.length; ++i) {
+            const pluginName = CONSUMER_PLUGINS[i];
+            debug("Checking Consumer plugin '" + pluginName + "'.");
+            const portalHasPlugin = !!portalConsumer.plugins[pluginName];
+            const kongHasPlugin = !!kongConsumer.plugins[pluginName];
+
+            if (portalHasPlugin && !kongHasPlugin)
+                addList.push(pluginName);
+            else if (!portalHasPlugin && kongHasPlugin)
+                deleteList.push(pluginName);
+            else if (portalHasPlugin && kongHasPlugin &&
+                !utils.matchObjects(getComparableCredentials(pluginName, portalConsumer.plugins[pluginName], kongConsumer.consumer.id), kongConsumer.plugins[pluginName], CREDENTIALS_COMPARE_OPTIONS))
+                updateList.push(pluginName);
+            // Else: Plugin matches, or is not used for consumer
+        }
+        return {
+            addList: addList,
+            updateList: updateList,
+            deleteList: deleteList
+        };
+    },
+
     // Use with care ;-) This will wipe ALL consumers from the Kong database.
     wipeAllConsumers: function (callback) {
         debug('wipeAllConsumers()');
@@ -447,6 +554,15 @@ function removeKongConsumerPlugins(apiList: KongApiConfigCollection): KongApiCon
     return apiList;
 }
 
+function removeKongRoutePlugins(apiList: KongApiConfigCollection): KongApiConfigCollection {
+    debug('removeKongRoutePlugins()');
+    for (let i = 0; i < apiList.apis.length; ++i) {
+        const thisApi = apiList.apis[i];
+        thisApi.plugins = thisApi.plugins.filter(plugin => !utils.getReferencedId(plugin, 'route'));
+    }
+    return apiList;
+}
+
 function getKongConsumerInfo(portalConsumer: ConsumerInfo, callback: Callback<ConsumerInfo>): void {
     debug('getKongConsumerInfo() for ' + portalConsumer.consumer.username);
     async.waterfall([
@@ -485,6 +601,19 @@ const CONSUMER_PLUGINS = [
     "hmac-auth"
 ];
 
+// The credentials of a consumer are lists in which the order does not matter
+const CREDENTIALS_COMPARE_OPTIONS: CompareOptions = { unorderedPaths: [''] };
+
+// Kong only returns the hash of basic-auth passwords (SHA1 of the password, salted
+// with the consumer ID); the portal side passwords are hashed the same way to compare.
+function getComparableCredentials(pluginName: string, credentials: ConsumerPlugin[], kongConsumerId: string): ConsumerPlugin[] {
+    if (pluginName !== 'basic-auth')
+        return credentials;
+    return (credentials as ConsumerBasicAuthConfig[]).map(credential => Object.assign({}, credential, {
+        password: crypto.createHash('sha1').update(credential.password + kongConsumerId).digest('hex')
+    }));
+}
+
 function enrichConsumerInfo(kongConsumer: KongConsumer, callback: Callback<ConsumerInfo>): void {
     debug('enrichConsumerInfo()');
     if (!kongConsumer) {
@@ -511,6 +640,75 @@ function enrichConsumerInfo(kongConsumer: KongConsumer, callback: Callback<Consu
     });
 }
 
+/**
+ * Reads the credentials of all consumers, plugin by plugin, and returns them
+ * as a map from consumer ID to the consumer's plugins.
+ */
+function getAllConsumerPlugins(callback: Callback<Map<string, KongConsumerPlugins>>): void {
+    debug('getAllConsumerPlugins()');
+    const consumerPlugins = new Map<string, KongConsumerPlugins>();
+    async.eachSeries(CONSUMER_PLUGINS, function (pluginName: string, callback) {
+        utils.kongGetAllConsumerPluginData(pluginName, function (err, pluginData) {
+            if (err)
+                return callback(err);
+            for (let i = 0; i < pluginData.data.length; ++i) {
+                const credential = pluginData.data[i];
+                const consumerId = utils.getReferencedId(credential, 'consumer');
+                if (!consumerPlugins.has(consumerId))
+                    consumerPlugins.set(consumerId, {});
+                const plugins = consumerPlugins.get(consumerId);
+                if (!plugins[pluginName])
+                    plugins[pluginName] = [];
+                plugins[pluginName].push(credential);
+            }
+            debug(`getAllConsumerPlugins(): Read ${pluginData.data.length} ${pluginName} credentials.`);
+            return callback(null);
+        });
+    }, function (err) {
+        if (err)
+            return callback(err);
+        return callback(null, consumerPlugins);
+    });
+}
+
+/**
+ * Reads all plugins which belong to both a consumer and an API, and returns them
+ * as a map from consumer ID to a map from API name to the plugins.
+ */
+function getAllConsumerApiPlugins(callback: Callback<Map<string, Map<string, KongPlugin[]>>>): void {
+    debug('getAllConsumerApiPlugins()');
+    async.series({
+        services: callback => utils.kongGetAllServices(callback),
+        plugins: callback => utils.kongGetAllPlugins(callback)
+    }, function (err, results) {
+        if (err)
+            return callback(err);
+        const services = results.services as KongCollection<KongService>;
+        const plugins = results.plugins as KongCollection<KongPlugin>;
+
+        const serviceNames = new Map<string, string>();
+        for (let i = 0; i < services.data.length; ++i)
+            serviceNames.set(services.data[i].id, services.data[i].name);
+
+        const consumerApiPlugins = new Map<string, Map<string, KongPlugin[]>>();
+        for (let i = 0; i < plugins.data.length; ++i) {
+            const plugin = plugins.data[i];
+            const consumerId = utils.getReferencedId(plugin, 'consumer');
+            const apiName = serviceNames.get(utils.getReferencedId(plugin, 'service'));
+            // Plugins on routes are not managed by the adapter, see getKongApis
+            if (!consumerId || !apiName || utils.getReferencedId(plugin, 'route'))
+                continue;
+            if (!consumerApiPlugins.has(consumerId))
+                consumerApiPlugins.set(consumerId, new Map<string, KongPlugin[]>());
+            const apiPlugins = consumerApiPlugins.get(consumerId);
+            if (!apiPlugins.has(apiName))
+                apiPlugins.set(apiName, []);
+            apiPlugins.get(apiName).push(plugin);
+        }
+        return callback(null, consumerApiPlugins);
+    });
+}
+
 function enrichConsumerPlugins(consumerInfo: ConsumerInfo, callback: Callback<ConsumerInfo>): void {
     debug('enrichConsumerPlugins()');
     async.each(CONSUMER_PLUGINS, function (pluginName, callback) {
@@ -528,25 +726,13 @@ function enrichConsumerPlugins(consumerInfo: ConsumerInfo, callback: Callback<Co
     });
 }
 
-function extractApiName(consumerName: string): string {
-    debug('extractApiName()');
-    // consumer names are like this: portal-application-name$api-name
-    const dollarIndex = consumerName.indexOf('$');
-    if (dollarIndex >= 0)
-        return consumerName.substring(dollarIndex + 1);
-    const atIndex = consumerName.indexOf('@');
-    if (atIndex >= 0)
-        return 'portal-api-internal';
-    return null;
-}
-
 function enrichConsumerApiPlugins(consumerInfo: ConsumerInfo, /* optional */apiId: string, callback: Callback<ConsumerInfo>): void {
     debug('enrichConsumerApiPlugins');
     const consumerId = consumerInfo.consumer.id;
     // Pass null for apiId if you want to extract it from the consumer's username
     let apiName = apiId;
     if (!apiId)
-        apiName = extractApiName(consumerInfo.consumer.username);
+        apiName = utils.extractApiName(consumerInfo.consumer.username);
     if (!apiName) {
         debug('enrichConsumerApiPlugins: Could not extract API name from name "' + consumerInfo.consumer.username + '", and API was not passed into function.');
         // Do nothing then, no plugins
@@ -561,7 +747,7 @@ function enrichConsumerApiPlugins(consumerInfo: ConsumerInfo, /* optional */apiI
         }
         if (!apiPlugins.data)
             return callback(null, consumerInfo);
-        consumerInfo.apiPlugins = apiPlugins.data;
+        consumerInfo.apiPlugins = apiPlugins.data.filter(plugin => !utils.getReferencedId(plugin, 'route'));
         callback(null, consumerInfo);
     });
 };
@@ -570,8 +756,9 @@ function addKongConsumerApiPlugin(portalConsumer: ConsumerInfo, consumerId: stri
     debug('addKongConsumerApiPlugin()');
     portalApiPlugin.consumer_id = consumerId;
     // Uargh
-    const apiName = extractApiName(portalConsumer.consumer.username);
-    utils.kongPostApiPlugin(apiName, portalApiPlugin, callback);
+    const apiName = utils.extractApiName(portalConsumer.consumer.username);
+    const plugin = utils.makeKongPlugin(portalApiPlugin, utils.getConsumerOwnership(portalConsumer.consumer));
+    utils.kongPostApiPlugin(apiName, plugin, callback);
 }
 
 function deleteKongConsumerApiPlugin(kongConsumer: ConsumerInfo, kongApiPlugin: KongPlugin, callback): void {
@@ -600,10 +787,31 @@ function patchKongConsumerApiPlugin(portalConsumer: ConsumerInfo, kongConsumer:
     });
 }
 
+// Sets the properties which are only present in Kong to their default value (or null)
+function resetRemovedProperties(body: object, diff: ObjectDiff[]): void {
+    for (let i = 0; i < diff.length; ++i) {
+        const d = diff[i];
+        // Elements of arrays are not reset; the arrays are sent as a whole
+        if (d.change !== 'removed' || d.path.indexOf('[') >= 0)
+            continue;
+        const pathParts = d.path.split('.');
+        let target = body;
+        for (let j = 0; j < pathParts.length - 1; ++j) {
+            if (!target[pathParts[j]] || typeof target[pathParts[j]] !== 'object')
+                target[pathParts[j]] = {};
+            target = target[pathParts[j]];
+        }
+        target[pathParts[pathParts.length - 1]] = d.newValue;
+    }
+}
+
 function addKongConsumer(addItem, done) {
     debug('addKongConsumer()');
     debug(JSON.stringify(addItem.portalConsumer.consumer));
-    utils.kongPostConsumer(addItem.portalConsumer.consumer, function (err, apiResponse) {
+    const ownership = utils.getConsumerOwnership(addItem.portalConsumer.consumer);
+    const consumer = utils.clone(addItem.portalConsumer.consumer);
+    utils.tagEntity(consumer, ownership);
+    utils.kongPostConsumer(consumer, function (err, apiResponse) {
         if (err)
             return done(err);
         const consumerId = apiResponse.id;
@@ -612,7 +820,7 @@ function addKongConsumer(addItem, done) {
         for (let pluginName in addItem.portalConsumer.plugins)
             pluginNames.push(pluginName);
 
-        const apiPlugins = addItem.portalConsumer.apiPlugins; // Array []
+        const apiPlugins = addItem.portalConsumer.apiPlugins.filter(pluginValidation.isValid); // Array []
 
         async.series([
             function (pluginsCallback) {
@@ -620,7 +828,7 @@ function addKongConsumer(addItem, done) {
                 async.eachSeries(pluginNames, function (pluginName, callback) {
                     const pluginInfo = addItem.portalConsumer.plugins[pluginName];
 
-                    addKongConsumerPlugin(consumerId, pluginName, pluginInfo, callback);
+                    addKongConsumerPlugin(consumerId, ownership, pluginName, pluginInfo, callback);
                 }, function (err2) {
                     if (err2)
                         return pluginsCallback(err2);
@@ -646,11 +854,13 @@ function addKongConsumer(addItem, done) {
     });
 }
 
-function addKongConsumerPlugin(consumerId: string, pluginName: string, pluginDataList: ConsumerPlugin[], done) {
+function addKongConsumerPlugin(consumerId: string, ownership: KongOwnership, pluginName: string, pluginDataList: ConsumerPlugin[], done) {
     debug('addKongConsumerPlugin()');
     async.eachSeries(pluginDataList, function (pluginData: ConsumerPlugin, callback) {
         info(`Adding consumer plugin ${pluginName} for consumer ${consumerId}`);
-        utils.kongPostConsumerPlugin(consumerId, pluginName, pluginData, callback);
+        const credential = utils.clone(pluginData);
+        utils.tagEntity(credential, ownership);
+        utils.kongPostConsumerPlugin(consumerId, pluginName, credential, callback);
     }, function (err) {
         if (err)
             return done(err);
@@ -672,48 +882,27 @@ function deleteKongConsumerPlugin(consumerId, pluginName, pluginDataList, done)
 
 function updateKongConsumerPlugins(portalConsumer: ConsumerInfo, kongConsumer: ConsumerInfo, callback: ErrorCallback) {
     debug('updateKongConsumerPlugins() for ' + portalConsumer.consumer.username);
-    async.eachSeries(CONSUMER_PLUGINS, function (pluginName: string, callback) {
-        debug("Checking Consumer plugin '" + pluginName + "'.");
-        let portalHasPlugin = !!portalConsumer.plugins[pluginName];
-        let kongHasPlugin = !!kongConsumer.plugins[pluginName];
-
-        if (portalHasPlugin && !kongHasPlugin) {
-            // Add Plugin
-            let portalPlugin = portalConsumer.plugins[pluginName];
-            return addKongConsumerPlugin(kongConsumer.consumer.id, pluginName, portalPlugin, callback);
-        } else if (!portalHasPlugin && kongHasPlugin) {
-            // Delete Plugin
-            let kongPlugin = kongConsumer.plugins[pluginName];
-            return deleteKongConsumerPlugin(kongConsumer.consumer.id, pluginName, kongPlugin, callback);
-        } else if (portalHasPlugin && kongHasPlugin) {
-            // Update Plugin
-            let portalPlugin = portalConsumer.plugins[pluginName];
-            let kongPlugin = kongConsumer.plugins[pluginName];
-            if (!utils.matchObjects(portalPlugin, kongPlugin)) {
-                async.series({
-                    deletePlugin: function (innerCallback) {
-                        deleteKongConsumerPlugin(kongConsumer.consumer.id, pluginName, kongPlugin, innerCallback);
-                    },
-                    addPlugin: function (innerCallback) {
-                        addKongConsumerPlugin(kongConsumer.consumer.id, pluginName, portalPlugin, innerCallback);
-                    }
-                }, function (err2, results) {
-                    if (err2)
-                        return callback(err2);
-                    debug("updateKongConsumerPlugins - Update finished.");
-                    return callback(null);
-                });
-            } else {
-                // This is a synchronuous call inside async, which assumes it is asynchronuous. process.nextTick defers
-                // execution until the next tick, so that this also gets async. If you don't do this, you will fairly
-                // easily end up in a 'RangeError: Maximum call stack size exceeded' error.
-                return process.nextTick(callback);
-            }
-            // Nothing to do here.
-        } else { // Else: Plugin not used for consumer
-            // See above regarding process.nextTick()
-            return process.nextTick(callback);
-        }
+    const todoLists = kong.assembleConsumerPluginTodoLists(portalConsumer, kongConsumer);
+    const consumerId = kongConsumer.consumer.id;
+    const ownership = utils.getConsumerOwnership(portalConsumer.consumer);
+    async.series({
+        addPlugins: callback => async.eachSeries(todoLists.addList, function (pluginName: string, callback) {
+            addKongConsumerPlugin(consumerId, ownership, pluginName, portalConsumer.plugins[pluginName], callback);
+        }, callback),
+        deletePlugins: callback => async.eachSeries(todoLists.deleteList, function (pluginName: string, callback) {
+            deleteKongConsumerPlugin(consumerId, pluginName, kongConsumer.plugins[pluginName], callback);
+        }, callback),
+        // Updating a consumer plugin means deleting and re-adding it
+        updatePlugins: callback => async.eachSeries(todoLists.updateList, function (pluginName: string, callback) {
+            async.series({
+                deletePlugin: function (innerCallback) {
+                    deleteKongConsumerPlugin(consumerId, pluginName, kongConsumer.plugins[pluginName], innerCallback);
+                },
+                addPlugin: function (innerCallback) {
+                    addKongConsumerPlugin(consumerId, ownership, pluginName, portalConsumer.plugins[pluginName], innerCallback);
+                }
+            }, callback);
+        }, callback)
     }, function (err) {
         if (err)
             return callback(err);
@@ -722,16 +911,31 @@ function updateKongConsumerPlugins(portalConsumer: ConsumerInfo, kongConsumer: C
     });
 }
 
+// Only consumers tagged as managed by wicked are deleted (see DECISIONS.md); the end
+// user consumers are registered by wicked's authorization server without tags, and
+// are recognized by their names instead (see orphans.ts).
+function isDeletableConsumer(kongConsumer: KongConsumer): boolean {
+    return utils.isUserConsumer(kongConsumer.username) || utils.isOwnedEntity(kongConsumer);
+}
+
 function updateKongConsumer(portalConsumer: ConsumerInfo, kongConsumer: ConsumerInfo, callback: ErrorCallback) {
-    // The only thing which may differ here is the custom_id
-    if (portalConsumer.consumer.custom_id === kongConsumer.consumer.custom_id) {
+    // The only things which may differ here are the custom_id and the ownership
+    // tags (for consumers which are adopted)
+    const owned = utils.isOwnedEntity(kongConsumer.consumer);
+    if (portalConsumer.consumer.custom_id === kongConsumer.consumer.custom_id && owned) {
         debug('Custom ID for consumer username ' + portalConsumer.consumer.username + ' matches: ' + portalConsumer.consumer.custom_id);
         return callback(null); // Nothing to do.
     }
-    info('Updating consumer ' + kongConsumer.consumer.id + ' (username ' + kongConsumer.consumer.username + ') with new custom_id: ' + portalConsumer.consumer.custom_id);
-    utils.kongPatchConsumer(kongConsumer.consumer.id, {
+    info('Updating consumer ' + kongConsumer.consumer.id + ' (username ' + kongConsumer.consumer.username + ') with custom_id: ' + portalConsumer.consumer.custom_id + (owned ? '' : ' and ownership tags'));
+    const consumerPatch = {
         custom_id: portalConsumer.consumer.custom_id
-    }, callback);
+    } as KongConsumer & KongTaggedEntity;
+    // Tags are replaced as a whole, so start with the existing ones
+    const existingTags = (kongConsumer.consumer as KongTaggedEntity).tags;
+    if (existingTags)
+        consumerPatch.tags = existingTags;
+    utils.tagEntity(consumerPatch, utils.getConsumerOwnership(portalConsumer.consumer));
+    utils.kongPatchConsumer(kongConsumer.consumer.id, consumerPatch, callback);
 }
 
 /*
@@ -0,0 +1,91 @@
+'use strict';
+
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:lock');
+const asyncHooks = require('async_hooks');
+
+import { ErrorCallback } from 'wicked-sdk';
+
+// Everything which synchronizes Kong with wicked (webhook processing, /resync and the
+// scheduled jobs) competes for the same entities in Kong, and therefore runs one at a
+// time. Work which does not get the lock right away waits for it, in order. Waiting
+// work is run in the asynchronous scope of its caller, so that it keeps e.g. the
+// caller's audit context (see audit.runWithContext).
+
+interface LockWaiter {
+    owner: string,
+    work: (callback: ErrorCallback) => void,
+    callback: ErrorCallback,
+    scope: any
+}
+
+// ===== PUBLIC INTERFACE =====
+
+export const syncLock = {
+    /**
+     * Runs the work as soon as no other work holds the lock, and releases the lock
+     * when the work calls back; the owner only describes the work, e.g. for logging.
+     */
+    run: function (owner: string, work: (callback: ErrorCallback) => void, callback: ErrorCallback): void {
+        const waiter = {
+            owner: owner,
+            work: work,
+            callback: callback,
+            scope: new asyncHooks.AsyncResource('KongAdapterSyncLock')
+        };
+        if (_owner) {
+            info(`${owner} waits for ${_owner} to finish.`);
+            _waiters.push(waiter);
+            return;
+        }
+        runLocked(waiter);
+    },
+
+    isLocked: function (): boolean {
+        return !!_owner;
+    },
+
+    /**
+     * The description of the work holding the lock, or null if it is not locked.
+     */
+    getOwner: function (): string {
+        return _owner;
+    }
+};
+
+// ===== INTERNALS =====
+
+let _owner: string = null;
+const _waiters: LockWaiter[] = [];
+
+function runLocked(waiter: LockWaiter): void {
+    debug(`${waiter.owner} acquires the lock`);
+    _owner = waiter.owner;
+    let released = false;
+    function release(err) {
+        // Releasing twice would hand the lock over twice
+        if (released) {
+            error(`${waiter.owner} called back more than once, ignoring.`);
+            return;
+        }
+        released = true;
+        debug(`${waiter.owner} releases the lock`);
+        // Hand the lock over right away, so that nothing can get in between
+        const next = _waiters.shift();
+        _owner = null;
+        if (next)
+            runLocked(next);
+        waiter.scope.emitDestroy();
+        return waiter.callback(err);
+    }
+    waiter.scope.runInAsyncScope(() => {
+        try {
+            waiter.work(release);
+        } catch (err) {
+            // Errors thrown by the callback itself are not the work's
+            if (released)
+                throw err;
+            error(`${waiter.owner} failed, releasing the lock.`);
+            release(err);
+        }
+    });
+}
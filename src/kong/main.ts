@@ -6,9 +6,23 @@ const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:
 import * as wicked from 'wicked-sdk';
 import * as utils from './utils';
 import { sync } from './sync';
-import { WickedEvent, WickedWebhookListener, WickedGlobals, Callback } from 'wicked-sdk';
+import { portal } from './portal';
+import { audit } from './audit';
+import { consumerCache } from './cache';
+import { deadLetters } from './deadletter';
+import { ignoreRules } from './ignore';
+import { pluginValidation } from './validation';
+import { secrets } from './secrets';
+import { AppActions, SyncPlan, DeadLetter } from './types';
+import { WickedEvent, WickedWebhookListener, WickedGlobals, Callback, ErrorCallback } from 'wicked-sdk';
 
 const MAX_ASYNC_CALLS = 10;
+// Number of applications whose webhook events are processed concurrently
+const WEBHOOK_WORKERS = Number(process.env.WEBHOOK_WORKERS) || 4;
+// Failing events are retried with exponential backoff (1s, 2s, 4s, ...); after the
+// last attempt, they are moved to the dead letter store.
+const WEBHOOK_RETRY_ATTEMPTS = Number(process.env.WEBHOOK_RETRY_ATTEMPTS) || 3;
+const WEBHOOK_RETRY_DELAY = Number(process.env.WEBHOOK_RETRY_DELAY_MS) || 1000;
 
 // ====== PUBLIC INTERFACE ======
 
@@ -16,7 +30,8 @@ export const kongMain = {
 
     init: function (options, done) {
         debug('init()');
-        async.series({
+        const trigger = 'sync:' + (options.trigger || 'startup');
+        audit.runWithContext({ trigger: trigger }, callback => async.series({
             initGlobals: function (callback) {
                 if (options.initGlobals) {
                     debug('Calling initGlobals()');
@@ -25,11 +40,27 @@ export const kongMain = {
                     callback(null);
                 }
             },
+            processPendingDeletes: function (callback) {
+                if (options.clearConsumerCache)
+                    consumerCache.clear();
+                // The pending events are flushed next; execute the pending deletes
+                // first, as the credentials of deleted applications must not stay valid.
+                processPendingDeletes(callback);
+            },
             flushEvents: function (callback) {
                 wicked.flushWebhookEvents('kong-adapter', callback);
             },
+            syncDeclarative: function (callback) {
+                // Without a database, Kong only takes the complete configuration
+                if (utils.isKongDbless() && (options.syncApis || options.syncConsumers)) {
+                    debug('Calling sync.syncDeclarative()');
+                    sync.syncDeclarative(callback);
+                } else {
+                    callback(null);
+                }
+            },
             syncApis: function (callback) {
-                if (options.syncApis) {
+                if (options.syncApis && !utils.isKongDbless()) {
                     debug('Calling sync.syncApis()');
                     sync.syncApis(callback);
                 } else {
@@ -37,7 +68,7 @@ export const kongMain = {
                 }
             },
             syncConsumers: function (callback) {
-                if (options.syncConsumers) {
+                if (options.syncConsumers && !utils.isKongDbless()) {
                     debug('Calling sync.syncAllConsumers()');
                     sync.syncAllConsumers(callback);
                 } else {
@@ -45,9 +76,14 @@ export const kongMain = {
                 }
             },
             addPrometheusPlugin: function (callback) {
+                // Part of the declarative configuration without a database
+                if (utils.isKongDbless())
+                    return callback(null);
                 sync.addPrometheusPlugin(callback);
             },
             deleteLegacyApis: function (callback) {
+                if (utils.isKongDbless())
+                    return callback(null);
                 sync.deleteLegacyApis(callback);
             },
             processPendingEvents: function (callback) {
@@ -57,7 +93,7 @@ export const kongMain = {
                     callback(null);
                 }
             },
-        }, function (err) {
+        }, callback), function (err) {
             if (err) {
                 return done(err);
             }
@@ -69,25 +105,82 @@ export const kongMain = {
     resync: function (done) {
         const initOptions = {
             syncApis: true,
-            syncConsumers: true
+            syncConsumers: true,
+            trigger: 'resync'
         };
         kongMain.init(initOptions, done);
     },
 
-    resyncApis: function () {
-        info('Resyncing all APIs (to check for updated scopes)');
-        const initOptions = {
-            syncApis: true,
-            syncConsumers: false
+    getPendingDeletesResult: function () {
+        return _pendingDeletesResult;
+    },
+
+    /**
+     * Folds the webhook events of one application into the actions to take; see
+     * coalesceAppEvents below.
+     */
+    coalesceAppEvents: function (appId: string, eventList: WickedEvent[]): AppActions {
+        return coalesceAppEvents(appId, eventList);
+    },
+
+    getImportResyncStatus: function () {
+        return {
+            inProgress: _importResync.inProgress,
+            startedAt: _importResync.startedAt,
+            finishedAt: _importResync.finishedAt,
+            error: _importResync.error
         };
-        kongMain.init(initOptions, function (err) {
-            if (err) {
-                error('Resyncing all APIs: An error occurred!');
-                error(err);
-            }
+    },
+
+    /**
+     * Computes the full sync plan (APIs, plugins, consumers and consumer plugins)
+     * without changing anything in Kong. This is the "dry run" of resync().
+     */
+    plan: function (done: Callback<SyncPlan>) {
+        debug('plan()');
+        const plan = sync.createEmptyPlan();
+        async.series([
+            callback => sync.planApis(plan, callback),
+            callback => sync.planAllConsumers(plan, callback)
+        ], function (err) {
+            if (err)
+                return done(err);
+            plan.ignoreRules = ignoreRules.getStatus();
+            plan.pluginValidation = pluginValidation.getReport();
+            return done(null, secrets.redactPlan(plan));
         });
     },
 
+    // The scheduled reconciliation jobs; see bin/kong-adapter.ts. Without a database,
+    // Kong only takes the complete configuration, so all of these do a declarative sync.
+
+    reconcileApis: function (callback: ErrorCallback) {
+        debug('reconcileApis()');
+        audit.runWithContext({ trigger: 'schedule:apis' }, callback => {
+            if (utils.isKongDbless())
+                return sync.syncDeclarative(callback);
+            sync.syncApis(callback);
+        }, callback);
+    },
+
+    reconcileConsumers: function (callback: ErrorCallback) {
+        debug('reconcileConsumers()');
+        audit.runWithContext({ trigger: 'schedule:consumers' }, callback => {
+            if (utils.isKongDbless())
+                return sync.syncDeclarative(callback);
+            sync.syncAllConsumers(callback);
+        }, callback);
+    },
+
+    cleanupOrphans: function (callback: ErrorCallback) {
+        debug('cleanupOrphans()');
+        audit.runWithContext({ trigger: 'schedule:orphans' }, callback => {
+            if (utils.isKongDbless())
+                return sync.syncDeclarative(callback);
+            sync.deleteOrphans(callback);
+        }, callback);
+    },
+
     processWebhooks: function (callback) {
         debug('processWebhooks()');
         info(`Processing events.`);
@@ -111,6 +204,26 @@ export const kongMain = {
         });
     },
 
+    /**
+     * Processes a dead lettered event again; if it succeeds, the event is removed
+     * from the dead letter store, otherwise its error and attempts are updated.
+     */
+    replayDeadLetter: function (deadLetter: DeadLetter, callback: ErrorCallback) {
+        debug(`replayDeadLetter(${deadLetter.eventId})`);
+        const onlyDelete = false;
+        dispatchWebhookAction(deadLetter.event, onlyDelete, function (err) {
+            if (err) {
+                return deadLetters.add(deadLetter.event, err, 1, function (deadLetterErr) {
+                    if (deadLetterErr)
+                        error(deadLetterErr);
+                    return callback(err);
+                });
+            }
+            info(`Replayed dead lettered event ${deadLetter.eventId} successfully.`);
+            deadLetters.remove(deadLetter.eventId, callback);
+        });
+    },
+
     deinit: function (done) {
         // Don't do this; this can result in glitches in the database; let
         // the wicked API store our events until we return.
@@ -132,17 +245,12 @@ function processPendingWebhooks(callback: Callback<boolean>) {
         const onlyDelete = false;
         if (pendingEvents.length === 0)
             return callback(null, false);
+        if (containsImportEvent(pendingEvents))
+            return resyncAfterImport(callback);
+        if (utils.isKongDbless())
+            return processDeclarativeWebhooks(pendingEvents, callback);
 
-        async.eachSeries(pendingEvents, (webhookData: WickedEvent, callback) => {
-            const now = new Date().getTime();
-            dispatchWebhookAction(webhookData, onlyDelete, function (err) {
-                const duration = (new Date().getTime() - now);
-                debug(`processPendingWebhooks: Processed ${webhookData.action} ${webhookData.entity} event in ${duration}ms`);
-                if (err)
-                    return callback(err);
-                return callback(null);
-            });
-        }, function (err) {
+        dispatchWebhookEvents(pendingEvents, onlyDelete, function (err) {
             if (err) {
                 error('An error occurred during dispatching events.');
                 error(err);
@@ -153,6 +261,222 @@ function processPendingWebhooks(callback: Callback<boolean>) {
     });
 }
 
+/**
+ * Dispatches the events in parallel, using WEBHOOK_WORKERS workers. The events of
+ * one application are processed strictly in order; events which do not belong to
+ * an application (e.g. API or plan events) act as barriers: all events before them
+ * are processed first, and all events after them wait until they are done.
+ */
+function dispatchWebhookEvents(pendingEvents: WickedEvent[], onlyDelete: boolean, callback: ErrorCallback): void {
+    debug(`dispatchWebhookEvents(), ${pendingEvents.length} events`);
+    const segments: WickedEvent[][][] = [];
+    let appEvents = new Map<string, WickedEvent[]>();
+    for (let i = 0; i < pendingEvents.length; ++i) {
+        const webhookData = pendingEvents[i];
+        const appId = getEventApplicationId(webhookData);
+        if (appId) {
+            if (!appEvents.has(appId))
+                appEvents.set(appId, []);
+            appEvents.get(appId).push(webhookData);
+            continue;
+        }
+        // Barrier: Close the current segment and process this event on its own
+        if (appEvents.size > 0)
+            segments.push(Array.from(appEvents.values()));
+        segments.push([[webhookData]]);
+        appEvents = new Map<string, WickedEvent[]>();
+    }
+    if (appEvents.size > 0)
+        segments.push(Array.from(appEvents.values()));
+
+    async.eachSeries(segments, (segment: WickedEvent[][], callback) => {
+        async.eachLimit(segment, WEBHOOK_WORKERS, (eventList: WickedEvent[], callback) => {
+            const now = new Date().getTime();
+            const appId = getEventApplicationId(eventList[0]);
+            const dispatch = appId ?
+                callback => dispatchAppEvents(appId, eventList, onlyDelete, callback) :
+                callback => dispatchEvent(eventList[0], onlyDelete, 1, callback);
+            dispatch(function (err) {
+                const duration = (new Date().getTime() - now);
+                debug(`dispatchWebhookEvents: Processed ${eventList.length} events in ${duration}ms`);
+                if (err)
+                    return callback(err);
+                return callback(null);
+            });
+        }, callback);
+    }, callback);
+}
+
+/**
+ * Dispatches the coalesced events of one application. A single event is retried
+ * as any other event; for several events, a failed attempt is not retried, but the
+ * events are dispatched one by one instead, so that only the failing events end up
+ * in the dead letter store. The failed attempt counts against the attempts of each
+ * of the events; if it was the only attempt allowed, the events are dead lettered.
+ */
+function dispatchAppEvents(appId: string, eventList: WickedEvent[], onlyDelete: boolean, callback: ErrorCallback) {
+    const appActions = coalesceAppEvents(appId, eventList);
+    if (eventList.length === 1)
+        return dispatchEventWork(eventList[0], 1, callback => dispatchAppActions(appActions, onlyDelete, callback), callback);
+    dispatchAppActions(appActions, onlyDelete, function (err) {
+        if (!err)
+            return callback(null);
+        if (WEBHOOK_RETRY_ATTEMPTS <= 1) {
+            warn(`Processing the coalesced events for application ${appId} failed.`);
+            return async.eachSeries(eventList, (webhookData: WickedEvent, callback) => deadLetterEvent(webhookData, err, 1, callback), callback);
+        }
+        warn(`Processing the coalesced events for application ${appId} failed, processing them one by one.`);
+        async.eachSeries(eventList, (webhookData: WickedEvent, callback) => dispatchEvent(webhookData, onlyDelete, 2, callback), callback);
+    });
+}
+
+function dispatchEvent(webhookData: WickedEvent, onlyDelete: boolean, firstAttempt: number, callback: ErrorCallback) {
+    dispatchEventWork(webhookData, firstAttempt, callback => dispatchWebhookAction(webhookData, onlyDelete, callback), callback);
+}
+
+function dispatchEventWork(webhookData: WickedEvent, firstAttempt: number, work: (callback: ErrorCallback) => void, callback: ErrorCallback) {
+    retryWithBackoff(`Processing event ${webhookData.action} ${webhookData.entity} (${webhookData.id})`, firstAttempt, work, function (err, attempts) {
+        if (!err)
+            return callback(null);
+        return deadLetterEvent(webhookData, err, attempts, callback);
+    });
+}
+
+/**
+ * Tries the work until it succeeds, or WEBHOOK_RETRY_ATTEMPTS attempts are made;
+ * the attempts before firstAttempt (at most WEBHOOK_RETRY_ATTEMPTS) have already
+ * been made elsewhere. Waits WEBHOOK_RETRY_DELAY before the second attempt,
+ * doubling the delay with each further attempt. Returns the number of the last attempt.
+ */
+function retryWithBackoff(description: string, firstAttempt: number, work: (callback: ErrorCallback) => void, callback: (err: any, attempts: number) => void) {
+    const lastAttempt = WEBHOOK_RETRY_ATTEMPTS;
+    function tryAttempt(attempt: number) {
+        work(function (err) {
+            if (!err || attempt >= lastAttempt)
+                return callback(err, attempt);
+            warn(`${description} failed (attempt ${attempt} of ${lastAttempt}), retrying.`);
+            return setTimeout(tryAttempt, getRetryDelay(attempt + 1), attempt + 1);
+        });
+    }
+    if (firstAttempt > 1)
+        setTimeout(tryAttempt, getRetryDelay(firstAttempt), firstAttempt);
+    else
+        tryAttempt(firstAttempt);
+}
+
+function getRetryDelay(attempt: number): number {
+    return WEBHOOK_RETRY_DELAY * Math.pow(2, attempt - 2);
+}
+
+// Moves the event to the dead letter store and acknowledges it, so that processing
+// of the other events can continue.
+function deadLetterEvent(webhookData: WickedEvent, err: any, attempts: number, callback: ErrorCallback) {
+    deadLetters.add(webhookData, err, attempts, function (deadLetterErr) {
+        if (deadLetterErr) {
+            error(`Could not store event ${webhookData.id} in the dead letter store.`);
+            return callback(deadLetterErr);
+        }
+        acknowledgeEvent(webhookData.id, callback);
+    });
+}
+
+/**
+ * Folds the events of one application into the minimal set of actions. Syncing the
+ * consumers of an application always reads the current state of the application,
+ * so it's enough to sync once, after all deletions; the sync is not needed if the
+ * application was deleted after the last add or update event.
+ */
+function coalesceAppEvents(appId: string, eventList: WickedEvent[]): AppActions {
+    const appActions: AppActions = {
+        appId: appId,
+        subscriptionDeletes: [],
+        appDeleteSubscriptions: null,
+        syncConsumers: false,
+        eventIds: eventList.map(e => e.id),
+        trigger: eventList.length === 1 ? `webhook:${eventList[0].action}:${eventList[0].entity}` : 'webhook:coalesced'
+    };
+    const subscriptionDeletes = new Map<string, any>();
+    for (let i = 0; i < eventList.length; ++i) {
+        const webhookData = eventList[i];
+        if (webhookData.action === 'add' || webhookData.action === 'update') {
+            appActions.syncConsumers = true;
+        } else if (webhookData.action === 'delete' && webhookData.entity === 'subscription') {
+            subscriptionDeletes.set(webhookData.data.apiId, webhookData.data);
+        } else if (webhookData.action === 'delete' && webhookData.entity === 'application') {
+            appActions.appDeleteSubscriptions = (appActions.appDeleteSubscriptions || []).concat(webhookData.data.subscriptions || []);
+            appActions.syncConsumers = false;
+        } else {
+            debug(`Discarding event ${webhookData.action} ${webhookData.entity}.`);
+        }
+    }
+    appActions.subscriptionDeletes = Array.from(subscriptionDeletes.values());
+    if (eventList.length > 1)
+        info(`Coalesced ${eventList.length} events for application ${appId}`);
+    return appActions;
+}
+
+function dispatchAppActions(appActions: AppActions, onlyDelete: boolean, callback: ErrorCallback) {
+    debug('dispatchAppActions()');
+    const appId = appActions.appId;
+    const auditContext = {
+        trigger: appActions.trigger,
+        eventId: appActions.eventIds.join(',')
+    };
+    async.series([
+        callback => audit.runWithContext(auditContext, callback => async.series([
+            callback => async.eachSeries(appActions.subscriptionDeletes, (webhookSubsInfo, callback) => deleteAppSubscriptionConsumer(webhookSubsInfo, callback), callback),
+            callback => {
+                if (appActions.appDeleteSubscriptions)
+                    return deleteAppConsumers(appId, appActions.appDeleteSubscriptions, callback);
+                return callback(null);
+            },
+            callback => {
+                if (appActions.syncConsumers && !onlyDelete)
+                    return syncAppConsumers(appId, callback);
+                return callback(null);
+            }
+        ], callback), callback),
+        callback => async.eachSeries(appActions.eventIds, (eventId, callback) => acknowledgeEvent(eventId, callback), callback)
+    ], function (err) {
+        if (err) {
+            error(`SYNC ACTIONS FOR APPLICATION ${appId} FAILED!`);
+            error(err);
+            return callback(err);
+        }
+        debug(`dispatchAppActions successfully returned for application ${appId}`);
+        callback(null);
+    });
+}
+
+function getEventApplicationId(webhookData: WickedEvent): string {
+    if (webhookData.entity !== 'application' && webhookData.entity !== 'subscription')
+        return null;
+    if (!webhookData.data || !webhookData.data.applicationId)
+        return null;
+    return webhookData.data.applicationId;
+}
+
+/**
+ * Without a database, Kong can only be changed by posting the complete configuration,
+ * so there is no point in dispatching the events one by one; instead, do one full
+ * declarative sync and acknowledge all of the events afterwards.
+ */
+function processDeclarativeWebhooks(pendingEvents: WickedEvent[], callback: Callback<boolean>) {
+    debug('processDeclarativeWebhooks()');
+    info(`Processing ${pendingEvents.length} events with a declarative sync.`);
+    async.series([
+        callback => audit.runWithContext({ trigger: 'webhook:declarative' }, callback => sync.syncDeclarative(callback), callback),
+        callback => async.eachSeries(pendingEvents, (webhookData: WickedEvent, callback) => acknowledgeEvent(webhookData.id, callback), callback)
+    ], function (err) {
+        if (err) {
+            error('An error occurred during the declarative sync.');
+            error(err);
+            return callback(err);
+        }
+        return callback(null, true);
+    });
+}
+
 function containsImportEvent(eventList) {
     if (!eventList)
         return false;
@@ -160,6 +484,49 @@ function containsImportEvent(eventList) {
     return !!importEvent;
 }
 
+const _importResync = {
+    inProgress: false,
+    startedAt: null as string,
+    finishedAt: null as string,
+    error: null as string
+};
+
+/**
+ * After a database import into wicked, anything may have changed. The rest of the
+ * pending events are flushed (as part of the resync), and everything is synced
+ * again, in the same order as at startup.
+ */
+function resyncAfterImport(callback: Callback<boolean>) {
+    info('Detected import event, starting a full resync.');
+    _importResync.inProgress = true;
+    _importResync.startedAt = new Date().toISOString();
+    _importResync.finishedAt = null;
+    _importResync.error = null;
+    utils.invalidatePlans();
+    portal.invalidateApis();
+    const initOptions = {
+        syncApis: true,
+        syncConsumers: true,
+        clearConsumerCache: true,
+        trigger: 'import'
+    };
+    async.series([
+        callback => utils.initGroups(callback),
+        callback => kongMain.init(initOptions, callback)
+    ], function (err) {
+        _importResync.inProgress = false;
+        _importResync.finishedAt = new Date().toISOString();
+        if (err) {
+            error('Full resync after import failed.');
+            error(err);
+            _importResync.error = err.message;
+            return callback(err);
+        }
+        info('Full resync after import done.');
+        return callback(null, true);
+    });
+}
+
 function dispatchWebhookAction(webhookData, onlyDelete, callback) {
     debug('dispatchWebhookAction()');
     const action = webhookData.action;
@@ -174,13 +541,25 @@ function dispatchWebhookAction(webhookData, onlyDelete, callback) {
         syncAction = callback => syncAppConsumers(webhookData.data.applicationId, callback);
     else if (entity === 'subscription' && action === 'delete')
         syncAction = callback => deleteAppSubscriptionConsumer(webhookData.data, callback);
+    else if (entity === 'api' && !onlyDelete)
+        syncAction = callback => syncChangedApi(webhookData.data, callback);
+    else if (entity === 'plan' && !onlyDelete)
+        syncAction = callback => syncChangedPlan(webhookData.data, callback);
+    else if (entity === 'group' && !onlyDelete)
+        syncAction = callback => syncChangedGroups(callback);
+    else if (entity === 'authserver' && !onlyDelete)
+        syncAction = callback => syncChangedAuthServer(webhookData.data, callback);
     else
         debug(`Discarding event ${action} ${entity}.`)
 
+    const auditContext = {
+        trigger: `webhook:${action}:${entity}`,
+        eventId: webhookData.id
+    };
     async.series([
         callback => {
             if (syncAction)
-                return syncAction(callback);
+                return audit.runWithContext(auditContext, syncAction, callback);
             return callback(null);
         },
         callback => acknowledgeEvent(webhookData.id, callback)
@@ -222,6 +601,70 @@ function deleteAppSubscriptionConsumer(webhookSubsInfo, callback) {
     sync.deleteAppSubscriptionConsumer(subsInfo, callback);
 }
 
+// The API, plan and auth server events carry the ID either as e.g. "apiId", or as "id"
+function getEventEntityId(eventData, idProperty: string): string {
+    if (!eventData)
+        return null;
+    return eventData[idProperty] || eventData.id || null;
+}
+
+function syncChangedApi(eventData, callback) {
+    const apiId = getEventEntityId(eventData, 'apiId');
+    if (!apiId)
+        return callback(new Error('API event does not contain an API ID.'));
+    info(`API ${apiId} has changed, syncing the API and its consumers`);
+    // The consumers depend on the API definition as well (API bundles)
+    portal.invalidateApis();
+    async.series([
+        callback => sync.syncApisById([apiId], callback),
+        callback => sync.syncApiConsumers([apiId], callback)
+    ], callback);
+}
+
+function syncChangedPlan(eventData, callback) {
+    const planId = getEventEntityId(eventData, 'planId');
+    if (!planId)
+        return callback(new Error('Plan event does not contain a plan ID.'));
+    info(`Plan ${planId} has changed, syncing the consumers of the APIs using it`);
+    // The plan plugins only end up at the consumers, not at the APIs
+    utils.invalidatePlans();
+    portal.invalidateApis();
+    portal.getPortalApis(function (err, portalApis) {
+        if (err)
+            return callback(err);
+        const apiIds = portalApis.apis.filter(api => api.plans && api.plans.indexOf(planId) >= 0).map(api => api.id);
+        if (apiIds.length === 0) {
+            debug(`syncChangedPlan(): Plan ${planId} is not used by any API.`);
+            return callback(null);
+        }
+        sync.syncApiConsumers(apiIds, callback);
+    });
+}
+
+function syncChangedGroups(callback) {
+    info('The user groups have changed, syncing the OAuth2 APIs');
+    // The groups end up as scopes of the OAuth2 APIs (see portal.getActualApis())
+    portal.invalidateApis();
+    async.series([
+        callback => utils.initGroups(callback),
+        callback => portal.getPortalApis(function (err, portalApis) {
+            if (err)
+                return callback(err);
+            const apiIds = portalApis.apis.filter(api => api.auth === 'oauth2').map(api => api.id);
+            sync.syncApisById(apiIds, callback);
+        })
+    ], callback);
+}
+
+function syncChangedAuthServer(eventData, callback) {
+    const authServerId = getEventEntityId(eventData, 'authServerId');
+    if (!authServerId)
+        return callback(new Error('Auth server event does not contain an auth server ID.'));
+    info(`Auth server ${authServerId} has changed, syncing it`);
+    // See portal.getAuthServerApis()
+    sync.syncApisById([`${authServerId}-auth`], callback);
+}
+
 function acknowledgeEvent(eventId, callback) {
     debug(`acknowledgeEvent(${eventId})`);
     wicked.deleteWebhookEvent('kong-adapter', eventId, function (err) {
@@ -232,6 +675,63 @@ function acknowledgeEvent(eventId, callback) {
 
 // ====== INTERNALS =======
 
+let _pendingDeletesResult = null;
+
+/**
+ * Executes the pending application and subscription delete events (before they are
+ * flushed); also invalidates the cached consumers of the applications the pending
+ * events refer to. Failing deletes are logged, but don't fail the initialization;
+ * the full sync afterwards deletes the superfluous consumers anyway.
+ */
+function processPendingDeletes(callback) {
+    debug('processPendingDeletes()');
+    const startTime = Date.now();
+    wicked.getWebhookEvents('kong-adapter', function (err, pendingEvents) {
+        if (err)
+            return callback(err);
+        const deleteEvents = [];
+        for (let i = 0; i < pendingEvents.length; ++i) {
+            const webhookData = pendingEvents[i];
+            if (webhookData.data && webhookData.data.applicationId)
+                consumerCache.invalidate(webhookData.data.applicationId);
+            if (webhookData.action === 'delete' && (webhookData.entity === 'application' || webhookData.entity === 'subscription'))
+                deleteEvents.push(webhookData);
+        }
+        const result = {
+            date: new Date().toISOString(),
+            pendingEvents: pendingEvents.length,
+            deleteEvents: deleteEvents.length,
+            succeeded: 0,
+            failed: 0,
+            errors: [],
+            duration: 0
+        };
+        // Without a database, the declarative sync replaces everything anyway
+        if (utils.isKongDbless())
+            deleteEvents.length = 0;
+        const onlyDelete = true;
+        async.eachSeries(deleteEvents, (webhookData: WickedEvent, callback) => {
+            dispatchWebhookAction(webhookData, onlyDelete, function (err) {
+                if (err) {
+                    result.failed++;
+                    result.errors.push(`${webhookData.action} ${webhookData.entity} (${webhookData.id}): ${err.message}`);
+                } else {
+                    result.succeeded++;
+                }
+                return callback(null);
+            });
+        }, function () {
+            result.duration = Date.now() - startTime;
+            _pendingDeletesResult = result;
+            if (result.failed > 0)
+                warn(`Pending delete events: ${result.succeeded} of ${result.deleteEvents} succeeded, ${result.failed} failed.`);
+            else
+                info(`Pending delete events: Processed ${result.succeeded} of ${pendingEvents.length} pending events in ${result.duration}ms.`);
+            return callback(null);
+        });
+    });
+}
+
 function registerWebhookListener(done) {
     debug('registerWebhookListener()');
     const myUrl = utils.getMyUrl();
@@ -1,12 +1,14 @@
 'use strict';
 
 import * as wicked from 'wicked-sdk';
-import { WickedError } from 'wicked-sdk';
+import { Callback, WickedError } from 'wicked-sdk';
 
 const async = require('async');
 const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:monitor');
 
 import * as utils from './utils';
+import { pluginSchemas } from './schema';
+import { KongNodeInfo } from './types';
 
 export const kongMonitor = {
     init: function (callback) {
@@ -24,6 +26,22 @@ export const kongMonitor = {
             callback(null);
         });
     },
+
+    /**
+     * Reads the version of Kong, and whether it runs without a database, without
+     * checking them; for the command line tools, which do not monitor Kong.
+     */
+    detectKong: function (callback: Callback<string>) {
+        debug('detectKong()');
+        utils.kongGetGlobals(function (err, body) {
+            if (err)
+                return callback(err);
+            if (!body.version)
+                return callback(new WickedError('Did not get expected "version" property from Kong.', 500, body));
+            applyKongGlobals(body);
+            return callback(null, body.version);
+        });
+    }
 };
 
 function checkKongVersion(callback) {
@@ -34,15 +52,45 @@ function checkKongVersion(callback) {
             const err = new WickedError('Did not get expected "version" property from Kong.', 500, body);
             return callback(err);
         }
+        applyKongGlobals(body);
+        // Kong >= 1.1 is supported with and without a database (declarative configuration
+        // only); otherwise, the expected Kong version is needed.
+        const atLeastKong11 = utils.isKongVersionAtLeast(1, 1);
+        if (utils.isKongDbless()) {
+            if (!atLeastKong11) {
+                const err = new WickedError('Kong without a database requires at least Kong 1.1, got "' + body.version + '"', 500, body);
+                return callback(err);
+            }
+            return callback(null, body.version);
+        }
         const expectedVersion = utils.getExpectedKongVersion();
-        if (expectedVersion !== body.version) {
-            const err = new WickedError('Unexpected Kong version. Got "' + body.version + '", expected "' + expectedVersion + '"', 500, body);
+        if (expectedVersion !== body.version && !atLeastKong11) {
+            const err = new WickedError('Unexpected Kong version. Got "' + body.version + '", expected "' + expectedVersion + '" or at least 1.1', 500, body);
             return callback(err);
         }
         return callback(null, body.version);
     });
 };
 
+function applyKongGlobals(body: KongNodeInfo): void {
+    const configuration = body.configuration;
+    const dbless = !!(configuration && configuration.database === 'off');
+    if (dbless !== utils.isKongDbless()) {
+        info(`Monitor: Kong is running ${dbless ? 'without' : 'with'} a database.`);
+        utils.setKongDbless(dbless);
+    }
+    if (body.version !== utils.getKongVersion()) {
+        info(`Monitor: Kong version is ${body.version}.`);
+        utils.setKongVersion(body.version);
+    }
+    // Kong >= 1.1 supports tags, which mark the entities created by the adapter
+    const tagsSupported = utils.isKongVersionAtLeast(1, 1);
+    if (tagsSupported !== utils.isKongTagsSupported()) {
+        info(`Monitor: Kong ${tagsSupported ? 'supports' : 'does not support'} tags.`);
+        utils.setKongTagsSupported(tagsSupported);
+    }
+}
+
 function checkKongCluster(callback) {
     utils.kongGetStatus(function (err, body) {
         if (err)
@@ -76,7 +124,9 @@ function pingKong(callback) {
     _pingInProgress = true;
     async.series([
         callback => checkKongVersion(callback),
-        callback => checkKongCluster(callback)
+        callback => checkKongCluster(callback),
+        // Only loads the plugin schemas at startup, and if the Kong version changed
+        callback => pluginSchemas.load(callback)
     ], function (err, results) {
         _pingInProgress = false;
         if (err) {
@@ -0,0 +1,169 @@
+'use strict';
+
+const async = require('async');
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:orphans');
+
+import * as wicked from 'wicked-sdk';
+import * as utils from './utils';
+import { kong } from './kong';
+import { ignoreRules } from './ignore';
+import { Callback, WickedSubscription } from 'wicked-sdk';
+import { ConsumerInfo, UserConsumerStatus, UserConsumerCleanupReport } from './types';
+
+const MAX_PARALLEL_CALLS = 10;
+// Consumers are only deleted after they have been found orphaned for this long; this
+// protects consumers which are registered before their subscription is visible.
+const ORPHAN_GRACE_PERIOD = (process.env.ORPHAN_GRACE_PERIOD_MINUTES ? Number(process.env.ORPHAN_GRACE_PERIOD_MINUTES) : 60) * 60 * 1000;
+
+// ===== PUBLIC INTERFACE =====
+
+export const orphans = {
+    /**
+     * Checks the consumers registered for end users (see DECISIONS.md) against wicked:
+     * The application is the name of the consumer's OAuth2 credential, the user is the
+     * consumer's custom_id. Consumers whose application, subscription or user does not
+     * exist anymore are deleted, once they have been orphaned for longer than the grace
+     * period. Consumers which cannot be mapped to an application are only reported.
+     *
+     * With dryRun set, nothing is deleted, and the report shows what would be deleted.
+     */
+    cleanupUserConsumers: function (dryRun: boolean, callback: Callback<UserConsumerCleanupReport>): void {
+        debug(`cleanupUserConsumers(${dryRun})`);
+        kong.getAllKongConsumers(function (err, kongConsumers) {
+            if (err)
+                return callback(err);
+            const userConsumers = kongConsumers.filter(c => {
+                const username = c.consumer.username;
+                return utils.isUserConsumer(username) && !ignoreRules.isIgnored('consumers', username, utils.extractApiName(username));
+            });
+            info(`cleanupUserConsumers(): Checking ${userConsumers.length} user consumers.`);
+            const appCache = new Map<string, ApplicationState>();
+            async.mapLimit(userConsumers, MAX_PARALLEL_CALLS, (consumerInfo: ConsumerInfo, callback) => {
+                checkUserConsumer(consumerInfo, appCache, callback);
+            }, function (err, statusList: UserConsumerStatus[]) {
+                if (err)
+                    return callback(err);
+                updateOrphanedSince(statusList);
+                const now = Date.now();
+                const deleteList = statusList.filter(s => s.status === 'orphaned' && now - Date.parse(s.orphanedSince) >= ORPHAN_GRACE_PERIOD);
+                const report: UserConsumerCleanupReport = {
+                    dryRun: dryRun,
+                    gracePeriod: ORPHAN_GRACE_PERIOD,
+                    consumers: statusList
+                };
+                if (dryRun)
+                    return callback(null, report);
+                async.eachSeries(deleteList, (status: UserConsumerStatus, callback) => {
+                    info(`Deleting orphaned user consumer ${status.username}: ${status.reason}`);
+                    kong.deleteConsumerWithUsername(status.username, function (err) {
+                        if (err)
+                            return callback(err);
+                        status.deleted = true;
+                        _orphanedSince.delete(status.username);
+                        return callback(null);
+                    });
+                }, function (err) {
+                    if (err)
+                        return callback(err);
+                    return callback(null, report);
+                });
+            });
+        });
+    }
+};
+
+// ===== INTERNALS =====
+
+interface ApplicationState {
+    exists: boolean,
+    subscriptions: WickedSubscription[]
+}
+
+// When each user consumer was first found orphaned (by username)
+const _orphanedSince = new Map<string, number>();
+
+function updateOrphanedSince(statusList: UserConsumerStatus[]): void {
+    const now = Date.now();
+    const orphanedNames = new Set<string>();
+    for (let i = 0; i < statusList.length; ++i) {
+        const status = statusList[i];
+        if (status.status !== 'orphaned')
+            continue;
+        orphanedNames.add(status.username);
+        if (!_orphanedSince.has(status.username))
+            _orphanedSince.set(status.username, now);
+        status.orphanedSince = new Date(_orphanedSince.get(status.username)).toISOString();
+    }
+    // Forget consumers which are not orphaned anymore (or are gone)
+    for (let username of Array.from(_orphanedSince.keys())) {
+        if (!orphanedNames.has(username))
+            _orphanedSince.delete(username);
+    }
+}
+
+function checkUserConsumer(consumerInfo: ConsumerInfo, appCache: Map<string, ApplicationState>, callback: Callback<UserConsumerStatus>): void {
+    const username = consumerInfo.consumer.username;
+    const dollarIndex = username.indexOf('$');
+    const oauth2 = consumerInfo.plugins.oauth2;
+    const status: UserConsumerStatus = {
+        username: username,
+        email: username.substring(0, dollarIndex),
+        api: username.substring(dollarIndex + 1),
+        applicationId: oauth2 && oauth2.length > 0 ? oauth2[0].name : undefined,
+        userId: consumerInfo.consumer.custom_id,
+        status: 'valid',
+        deleted: false
+    };
+    if (!status.applicationId) {
+        status.status = 'unmapped';
+        status.reason = 'Consumer does not have an OAuth2 credential';
+        return callback(null, status);
+    }
+    async.series({
+        application: callback => getApplicationState(status.applicationId, appCache, callback),
+        userExists: callback => userExists(status.userId, callback)
+    }, function (err, results) {
+        if (err)
+            return callback(err);
+        const application = results.application as ApplicationState;
+        if (!application.exists) {
+            status.status = 'orphaned';
+            status.reason = `Application ${status.applicationId} does not exist`;
+        } else if (!application.subscriptions.find(s => s.api === status.api && s.approved)) {
+            status.status = 'orphaned';
+            status.reason = `Application ${status.applicationId} is not subscribed to API ${status.api}`;
+        } else if (!results.userExists) {
+            status.status = 'orphaned';
+            status.reason = `User ${status.userId} does not exist`;
+        }
+        return callback(null, status);
+    });
+}
+
+function getApplicationState(appId: string, appCache: Map<string, ApplicationState>, callback: Callback<ApplicationState>): void {
+    if (appCache.has(appId))
+        return callback(null, appCache.get(appId));
+    wicked.getSubscriptions(appId, function (err, subscriptions) {
+        if (err && err.status === 404) {
+            appCache.set(appId, { exists: false, subscriptions: [] });
+            return callback(null, appCache.get(appId));
+        }
+        if (err)
+            return callback(err);
+        appCache.set(appId, { exists: true, subscriptions: subscriptions });
+        return callback(null, appCache.get(appId));
+    });
+}
+
+// Consumers without custom_id are not checked for the user
+function userExists(userId: string, callback: Callback<boolean>): void {
+    if (!userId)
+        return callback(null, true);
+    wicked.getUser(userId, function (err) {
+        if (err && err.status === 404)
+            return callback(null, false);
+        if (err)
+            return callback(err);
+        return callback(null, true);
+    });
+}
@@ -0,0 +1,197 @@
+'use strict';
+
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:placeholders');
+
+import * as wicked from 'wicked-sdk';
+import { KongApiConfig, KongPlugin } from 'wicked-sdk';
+import { PluginValidationIssue, PortalPlugin } from './types';
+
+// Placeholders in the string values of plugin configurations (API and plan plugins)
+// are replaced when the configuration is read from wicked. The syntax is %{name},
+// or %{name:argument}; "%%{" is a literal "%{". The following names are known:
+//
+//   %{externalHost}       The host of the API gateway, as seen from the outside
+//   %{externalPort}       The port of the API gateway (443 or 80 if not given)
+//   %{schema}             The schema of the API gateway (https or http)
+//   %{portalUrl}          The internal URL of the portal
+//   %{apiId}              The ID of the API the plugin is applied to
+//   %{apiPrefix}          The (first) request path of that API
+//   %{planId}             The ID of the plan the plugin belongs to (plan plugins only)
+//   %{forwarded}          A Forwarded header value: host=...;port=...;proto=...;prefix=...
+//   %{env:NAME}           The value of the environment variable NAME
+//   %{globals:some.path}  A value from the wicked globals, e.g. %{globals:network.apiHost}
+//
+// If a string consists of a single placeholder, the value keeps its type (e.g. a
+// number from the globals). The legacy request-transformer header "%%Forwarded" is
+// the same as "Forwarded: %{forwarded}". Unknown names are left as they are, so that
+// e.g. log formats containing "%{...}" keep working. Unset environment variables and
+// missing globals are errors, as is using %{apiId} etc. without an API.
+
+export interface PlaceholderContext {
+    api?: KongApiConfig,
+    planId?: string
+}
+
+// ===== PUBLIC INTERFACE =====
+
+export const placeholders = {
+    /**
+     * Replaces the placeholders in the configurations of the given plugins, in place.
+     * A plugin with a placeholder which cannot be resolved keeps its configuration,
+     * and is marked with the errors ("placeholder_errors"), which makes it invalid
+     * (see validation.ts); returns the issues for the validation report.
+     */
+    resolvePlugins: function (plugins: KongPlugin[], context: PlaceholderContext): PluginValidationIssue[] {
+        const issues: PluginValidationIssue[] = [];
+        for (let i = 0; i < plugins.length; ++i) {
+            const plugin = plugins[i] as PortalPlugin;
+            delete plugin.placeholder_errors;
+            if (!plugin.config)
+                continue;
+            try {
+                plugin.config = resolveValue(plugin.config, context, 'config');
+            } catch (err) {
+                plugin.placeholder_errors = [err.message];
+                issues.push({
+                    plugin: plugin.name,
+                    index: i,
+                    errors: [{ path: err.path, message: err.message }]
+                });
+            }
+        }
+        return issues;
+    },
+
+    /**
+     * The owner of plugins as named in the validation report, e.g. "API petstore"
+     * or "plan basic of API petstore".
+     */
+    getOwner: function (context: PlaceholderContext): string {
+        const apiId = getApiId(context);
+        if (context.planId)
+            return `plan ${context.planId}` + (apiId ? ` of API ${apiId}` : '');
+        return `API ${apiId}`;
+    },
+
+    /**
+     * Replaces the placeholders in a single string; see above for the syntax.
+     */
+    resolveString: function (value: string, context: PlaceholderContext): any {
+        if (value === LEGACY_FORWARDED)
+            return 'Forwarded: ' + resolveName('forwarded', context);
+        const singleMatch = value.match(SINGLE_PLACEHOLDER_REGEX);
+        if (singleMatch && isKnownName(singleMatch[1]))
+            return resolveName(singleMatch[1], context);
+        return value.replace(PLACEHOLDER_REGEX, function (match, escape, name) {
+            if (escape)
+                return '%{' + name + '}';
+            if (!isKnownName(name))
+                return match;
+            return String(resolveName(name, context));
+        });
+    }
+};
+
+// ===== INTERNALS =====
+
+const LEGACY_FORWARDED = '%%Forwarded';
+const PLACEHOLDER_REGEX = /%(%?)\{([^}]*)\}/g;
+const SINGLE_PLACEHOLDER_REGEX = /^%\{([^}]*)\}$/;
+const KNOWN_NAMES = ['externalHost', 'externalPort', 'schema', 'portalUrl', 'apiId', 'apiPrefix', 'planId', 'forwarded', 'env', 'globals'];
+
+function isKnownName(placeholder: string): boolean {
+    return KNOWN_NAMES.indexOf(placeholder.split(':')[0]) >= 0;
+}
+
+// Errors carry the path of the value, e.g. "config.add.headers[0]"
+function resolveValue(value: any, context: PlaceholderContext, path: string): any {
+    if (typeof value === 'string') {
+        try {
+            return placeholders.resolveString(value, context);
+        } catch (err) {
+            err.path = path;
+            throw err;
+        }
+    }
+    if (Array.isArray(value))
+        return value.map((v, i) => resolveValue(v, context, `${path}[${i}]`));
+    if (value !== null && typeof value === 'object') {
+        const resolved = {};
+        for (let prop in value)
+            resolved[prop] = resolveValue(value[prop], context, `${path}.${prop}`);
+        return resolved;
+    }
+    return value;
+}
+
+function resolveName(placeholder: string, context: PlaceholderContext): any {
+    const colonIndex = placeholder.indexOf(':');
+    const name = colonIndex >= 0 ? placeholder.substring(0, colonIndex) : placeholder;
+    const argument = colonIndex >= 0 ? placeholder.substring(colonIndex + 1) : null;
+    switch (name) {
+        case 'externalHost':
+            return getExternalHost().host;
+        case 'externalPort':
+            return getExternalHost().port;
+        case 'schema':
+            return wicked.getSchema();
+        case 'portalUrl':
+            return wicked.getInternalPortalUrl();
+        case 'apiId':
+            return getApiId(context);
+        case 'apiPrefix':
+            return [].concat(getApi(placeholder, context).uris)[0];
+        case 'planId':
+            if (!context.planId)
+                throw new Error(`Placeholder %{${placeholder}} can only be used in plan plugins.`);
+            return context.planId;
+        case 'forwarded': {
+            const externalHost = getExternalHost();
+            const prefix = getApi(placeholder, context).uris;
+            return 'host=' + externalHost.host + ';port=' + externalHost.port + ';proto=' + wicked.getSchema() + ';prefix=' + prefix;
+        }
+        case 'env':
+            if (!argument)
+                throw new Error('Placeholder %{env:NAME} needs the name of an environment variable.');
+            if (process.env[argument] === undefined)
+                throw new Error(`Environment variable ${argument} (placeholder %{${placeholder}}) is not set.`);
+            return process.env[argument];
+        default: // globals
+            return getGlobalsValue(placeholder, argument);
+    }
+}
+
+function getApi(placeholder: string, context: PlaceholderContext) {
+    if (!context.api)
+        throw new Error(`Placeholder %{${placeholder}} can only be used in plugins of an API.`);
+    return context.api.api;
+}
+
+function getApiId(context: PlaceholderContext): string {
+    return context.api ? context.api.api.name : null;
+}
+
+function getExternalHost(): { host: string, port: any } {
+    const proto = wicked.getSchema();
+    const rawHost = wicked.getExternalApiHost();
+    if (rawHost.indexOf(':') > 0) {
+        const splitList = rawHost.split(':');
+        return { host: splitList[0], port: splitList[1] };
+    }
+    return { host: rawHost, port: (proto == 'https') ? 443 : 80 };
+}
+
+function getGlobalsValue(placeholder: string, path: string): any {
+    if (!path)
+        throw new Error('Placeholder %{globals:path} needs a path into the globals, e.g. %{globals:network.apiHost}.');
+    let value: any = wicked.getGlobals();
+    const pathParts = path.split('.');
+    for (let i = 0; i < pathParts.length; ++i) {
+        if (value === null || typeof value !== 'object' || value[pathParts[i]] === undefined)
+            throw new Error(`Placeholder %{${placeholder}}: the globals do not contain ${path}.`);
+        value = value[pathParts[i]];
+    }
+    if (value !== null && typeof value === 'object')
+        throw new Error(`Placeholder %{${placeholder}}: ${path} is not a single value.`);
+    return value;
+}
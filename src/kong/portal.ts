@@ -4,8 +4,11 @@ const async = require('async');
 const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:portal');
 import * as utils from './utils';
 import * as wicked from 'wicked-sdk';
-import { Callback, WickedApplication, WickedAuthServer, WickedError, KongPluginRequestTransformer, KongPluginCors, WickedApiPlanCollection, WickedApiPlan, WickedApiCollection, WickedApi, KongApiConfig, KongPluginRateLimiting, WickedSessionStoreType, WickedApiSettings, KongPlugin } from 'wicked-sdk';
-import { ConsumerInfo, ApplicationData, ApiDescriptionCollection, ApiDescription } from './types';
+import { consumerCache } from './cache';
+import { placeholders } from './placeholders';
+import { pluginValidation } from './validation';
+import { Callback, WickedApplication, WickedAuthServer, WickedError, KongPluginCors, WickedApiPlanCollection, WickedApiPlan, WickedApiCollection, WickedApi, KongApiConfig, KongPluginRateLimiting, WickedSessionStoreType, WickedApiSettings, KongPlugin, WickedSubscription } from 'wicked-sdk';
+import { ConsumerInfo, ApplicationData, ApiDescriptionCollection, ApiDescription, ChangedPortalConsumers, HmacAuthApiSettings, HmacAuthPluginConfig, PortalPlugin } from './types';
 
 const MAX_PARALLEL_CALLS = 10;
 const REFRESH_API_INTERVAL = 3 * 60 * 1000; // 3 minutes
@@ -33,15 +36,16 @@ export const portal = {
             // Add the Swagger UI "API" for tunneling
             const swaggerApi = require('../../resources/swagger-ui.json');
             swaggerApi.config.api.upstream_url = portalHost + 'swagger-ui';
-            checkApiConfig(swaggerApi.config);
             apiList.apis.push(swaggerApi);
 
             // And a Ping end point for monitoring            
             const pingApi = require('../../resources/ping-api.json');
             pingApi.config.api.upstream_url = portalHost + 'ping';
-            checkApiConfig(pingApi.config);
             apiList.apis.push(pingApi);
 
+            checkApiConfig(swaggerApi.config);
+            checkApiConfig(pingApi.config);
+
             // And the auth Servers please
             for (let i = 0; i < authServerList.length; ++i) {
                 // TODO: This is not nice. The property "desc" is not present in authServerList, and thus
@@ -51,7 +55,7 @@ export const portal = {
             }
 
             debug('getPortalApis():');
-            debug(apiList);
+            debug(utils.getText(apiList));
 
             try {
                 injectAuthPlugins(apiList);
@@ -131,7 +135,32 @@ export const portal = {
 
     getAllPortalConsumers: function (callback: Callback<ConsumerInfo[]>) {
         debug('getAllPortalConsumers()');
-        return getAllAppConsumers(callback);
+        getAllAppConsumers(null, function (err, changes) {
+            if (err)
+                return callback(err);
+            return callback(null, changes.consumers);
+        });
+    },
+
+    /**
+     * Like getAllPortalConsumers, but leaves out the applications which have not
+     * changed since their consumers were last synced to Kong (see cache.ts); pass
+     * the names of the consumers currently in Kong. Call consumerCache.markSynced()
+     * with the returned application IDs after syncing their consumers.
+     */
+    getChangedPortalConsumers: function (kongUsernames: Set<string>, callback: Callback<ChangedPortalConsumers>) {
+        debug('getChangedPortalConsumers()');
+        return getAllAppConsumers(kongUsernames, callback);
+    },
+
+    /**
+     * Makes the next call to getPortalApis() re-read the API definitions,
+     * instead of waiting for REFRESH_API_INTERVAL to pass.
+     */
+    invalidateApis: function (): void {
+        debug('invalidateApis()');
+        _actualApis = null;
+        _actualApisDate = 0;
     },
 
 };
@@ -209,7 +238,7 @@ function getAuthServerApis(callback: Callback<WickedAuthServer[]>) {
         }, function (err, authServers: WickedAuthServer[]) {
             if (err)
                 return callback(err);
-            debug(JSON.stringify(authServers, null, 2));
+            debug(utils.getText(authServers));
             // Fix auth server and API auth server IDs; also adapt
             // the upstream_url (canonicalize it).
             for (let i = 0; i < authServers.length; ++i) {
@@ -235,27 +264,17 @@ function getAuthServerApis(callback: Callback<WickedAuthServer[]>) {
     });
 }
 
+// Plugins with placeholders which cannot be resolved are reported, and skipped by the sync
 function checkApiConfig(apiConfig: KongApiConfig): KongApiConfig {
     debug('checkApiConfig()');
     if (apiConfig.plugins) {
-        checkApiPlugins(apiConfig, apiConfig.plugins);
+        const context = { api: apiConfig };
+        pluginValidation.setPlaceholderIssues(placeholders.getOwner(context), placeholders.resolvePlugins(apiConfig.plugins, context));
         checkCorsAndRateLimitingPlugins(apiConfig.api.name, apiConfig.plugins);
     }
     return apiConfig;
 }
 
-// Checks plugins which can only be applied on API level
-function checkApiPlugins(apiConfig: KongApiConfig, plugins: KongPlugin[]): void {
-    for (let i = 0; i < plugins.length; ++i) {
-        const plugin = plugins[i];
-        switch (plugin.name.toLowerCase()) {
-            case "request-transformer":
-                checkRequestTransformerPlugin(apiConfig, plugin as KongPluginRequestTransformer);
-                break;
-        }
-    }
-}
-
 // Checks plugins which can be applied both on API and Plan level
 function checkCorsAndRateLimitingPlugins(apiName: string, plugins: KongPlugin[]): void {
     for (let i = 0; i < plugins.length; ++i) {
@@ -273,34 +292,6 @@ function checkCorsAndRateLimitingPlugins(apiName: string, plugins: KongPlugin[])
 }
 
 
-function checkRequestTransformerPlugin(apiConfig: KongApiConfig, plugin: KongPluginRequestTransformer): void {
-    debug('checkRequestTransformerPlugin()');
-    if (plugin.config &&
-        plugin.config.add &&
-        plugin.config.add.headers) {
-
-        for (let i = 0; i < plugin.config.add.headers.length; ++i) {
-            if (plugin.config.add.headers[i] == '%%Forwarded') {
-                const prefix = apiConfig.api.uris;
-                const proto = wicked.getSchema();
-                const rawHost = wicked.getExternalApiHost();
-                let host;
-                let port;
-                if (rawHost.indexOf(':') > 0) {
-                    const splitList = rawHost.split(':');
-                    host = splitList[0];
-                    port = splitList[1];
-                } else {
-                    host = rawHost;
-                    port = (proto == 'https') ? 443 : 80;
-                }
-
-                plugin.config.add.headers[i] = 'Forwarded: host=' + host + ';port=' + port + ';proto=' + proto + ';prefix=' + prefix;
-            }
-        }
-    }
-}
-
 function checkCorsPlugin(plugin: KongPluginCors): void {
     debug('checkCorsPlugin()');
     if (plugin.config &&
@@ -342,14 +333,16 @@ function checkRateLimitingPlugin(apiName: string, plugin: KongPluginRateLimiting
         plugin.config.redis_host = glob.sessionStore.host;
         if (glob.sessionStore.port)
             plugin.config.redis_port = Number(glob.sessionStore.port);
+        // Only resolved when sending the plugin to Kong; see secrets.ts
         if (glob.sessionStore.password)
-            plugin.config.redis_password = glob.sessionStore.password;
+            plugin.config.redis_password = '{secret:globals:sessionStore.password}';
         if (!plugin.config.redis_timeout)
             plugin.config.redis_timeout = 2000; // ms
     }
 }
 
-function getAllAppConsumers(callback: Callback<ConsumerInfo[]>): void {
+// Without the Kong consumer names, all applications are returned
+function getAllAppConsumers(kongUsernames: Set<string>, callback: Callback<ChangedPortalConsumers>): void {
     debug('getAllAppConsumers()');
     async.parallel({
         apiPlans: callback => utils.getPlans(callback),
@@ -363,7 +356,67 @@ function getAllAppConsumers(callback: Callback<ConsumerInfo[]>): void {
         const apiPlans = results.apiPlans as WickedApiPlanCollection;
         const apiList = results.apiList as ApiDescriptionCollection;
 
-        enrichApplications(applicationList, apiPlans, apiList, callback);
+        // Only fetch the applications which are not in the consumer cache; the cache
+        // is kept up to date by the webhook events.
+        consumerCache.checkContext(getConsumerContextHash(apiPlans, apiList));
+        consumerCache.retain(applicationList.map(appInfo => appInfo.id));
+        const changes: ChangedPortalConsumers = {
+            consumers: [],
+            appIds: [],
+            unchangedAppIds: []
+        };
+        const appConsumers = new Map<string, ConsumerInfo[]>();
+        const uncachedApplications: WickedApplication[] = [];
+        for (let i = 0; i < applicationList.length; ++i) {
+            const appId = applicationList[i].id;
+            const signal = getApplicationSignal(applicationList[i]);
+            if (kongUsernames && consumerCache.isUnchanged(appId, signal, kongUsernames)) {
+                changes.unchangedAppIds.push(appId);
+                continue;
+            }
+            const cachedConsumers = consumerCache.get(appId, signal);
+            if (cachedConsumers)
+                appConsumers.set(appId, cachedConsumers);
+            else
+                uncachedApplications.push(applicationList[i]);
+        }
+        info(`getAllAppConsumers: Fetching ${uncachedApplications.length} of ${applicationList.length} applications (${changes.unchangedAppIds.length} unchanged, the others are cached).`);
+
+        async.mapLimit(uncachedApplications, MAX_PARALLEL_CALLS, function (appInfo: WickedApplication, callback) {
+            getApplicationConsumers(appInfo.id, apiPlans, apiList, getApplicationSignal(appInfo), callback);
+        }, function (err, results: ConsumerInfo[][]) {
+            if (err)
+                return callback(err);
+            for (let i = 0; i < uncachedApplications.length; ++i)
+                appConsumers.set(uncachedApplications[i].id, results[i]);
+            appConsumers.forEach((consumers, appId) => {
+                // E.g. the application changed, but not its consumers
+                if (kongUsernames && consumerCache.isSynced(appId, kongUsernames)) {
+                    changes.unchangedAppIds.push(appId);
+                    return;
+                }
+                changes.appIds.push(appId);
+                changes.consumers = changes.consumers.concat(consumers);
+            });
+            return callback(null, changes);
+        });
+    });
+}
+
+// The cheap change signal of an application: the application as listed by the wicked
+// API. Changes of the subscriptions are signalled by the webhook events instead, which
+// invalidate the application in the cache.
+function getApplicationSignal(appInfo: WickedApplication): string {
+    return consumerCache.hash(appInfo);
+}
+
+// The consumers of an application also depend on the plans (API plugins), the
+// API bundles and the session store (rate limiting via redis).
+function getConsumerContextHash(apiPlans: WickedApiPlanCollection, apiList: ApiDescriptionCollection): string {
+    return consumerCache.hash({
+        plans: apiPlans.plans.map(plan => ({ id: plan.id, config: plan.config })),
+        apis: apiList.apis.map(api => ({ id: api.id, name: api.name, bundle: api.bundle })),
+        sessionStore: wicked.getGlobals().sessionStore
     });
 }
 
@@ -407,88 +460,158 @@ function getApplicationData(appId: string, callback: Callback<ApplicationData>):
 function enrichApplications(applicationList: WickedApplication[], apiPlans: WickedApiPlanCollection, apiList: ApiDescriptionCollection, callback: Callback<ConsumerInfo[]>) {
     debug('enrichApplications(), applicationList = ' + utils.getText(applicationList));
     async.mapLimit(applicationList, MAX_PARALLEL_CALLS, function (appInfo, callback) {
-        getApplicationData(appInfo.id, callback);
-    }, function (err, results) {
+        getApplicationConsumers(appInfo.id, apiPlans, apiList, null, callback);
+    }, function (err, results: ConsumerInfo[][]) {
         if (err)
             return callback(err);
 
-        const consumerList = [];
-        for (let resultIndex = 0; resultIndex < results.length; ++resultIndex) {
-            const appInfo = results[resultIndex].application;
-            const appSubsInfo = results[resultIndex].subscriptions;
-            for (let subsIndex = 0; subsIndex < appSubsInfo.length; ++subsIndex) {
-                const appSubs = appSubsInfo[subsIndex];
-                // Only propagate approved subscriptions
-                if (!appSubs.approved)
-                    continue;
-
-                let groupName = appSubs.api;
-                // Check if this API is part of a bundle
-                const apiDesc = apiList.apis.find(a => a.id === appSubs.api);
-                if (apiDesc) {
-                    // API_BUNDLE: Use bundle as group name; this will mean that access tokens/API Keys for this API
-                    // will also work for any other API which is part of this bundle.
-                    if (apiDesc.bundle)
-                        groupName = apiDesc.bundle;
-                } else {
-                    warn(`enrichApplications: Could not find API configuration for API ${appSubs.api}`);
-                }
+        let consumerList: ConsumerInfo[] = [];
+        for (let resultIndex = 0; resultIndex < results.length; ++resultIndex)
+            consumerList = consumerList.concat(results[resultIndex]);
 
-                debug(utils.getText(appSubs));
-                const consumerInfo: ConsumerInfo = {
-                    consumer: {
-                        username: utils.makeUserName(appSubs.application, appSubs.api),
-                        custom_id: appSubs.id
-                    },
-                    plugins: {
-                        acls: [{
-                            group: groupName
-                        }]
-                    }
-                };
-                if ("oauth2" == appSubs.auth) {
-                    let redirectUris = appInfo.redirectUris;
-                    if (!redirectUris || redirectUris.length == 0)
-                        redirectUris = ['https://dummy.org'];
-                    consumerInfo.plugins.oauth2 = [{
-                        name: appSubs.application,
-                        client_id: appSubs.clientId,
-                        client_secret: appSubs.clientSecret,
-                        redirect_uri: redirectUris
-                    }];
-                } else if (!appSubs.auth || "key-auth" == appSubs.auth) {
-                    consumerInfo.plugins["key-auth"] = [{
-                        key: appSubs.apikey
-                    }];
-                } else {
-                    let err2 = new Error('Unknown auth strategy: ' + appSubs.auth + ', for application "' + appSubs.application + '", API "' + appSubs.api + '".');
-                    return callback(err2);
-                }
+        debug(utils.getText(consumerList));
 
-                // Now the API level plugins from the Plan
-                const apiPlan = getPlanById(apiPlans, appSubs.plan);
-                if (!apiPlan) {
-                    const err = new Error('Unknown API plan strategy: ' + appSubs.plan + ', for application "' + appSubs.application + '", API "' + appSubs.api + '".');
-                    return callback(err);
-                }
+        return callback(null, consumerList);
+    });
+}
 
-                if (apiPlan.config && apiPlan.config.plugins) {
-                    consumerInfo.apiPlugins = utils.clone(apiPlan.config.plugins);
-                }
-                else {
-                    consumerInfo.apiPlugins = [];
-                }
-                // Fix #148: Apply Redis also for ratelimiting from Plans
-                checkCorsAndRateLimitingPlugins(apiDesc.name, consumerInfo.apiPlugins);
+// Fetches an application and its subscriptions, and stores the resulting
+// consumers in the consumer cache, with the signal if known.
+function getApplicationConsumers(appId: string, apiPlans: WickedApiPlanCollection, apiList: ApiDescriptionCollection, signal: string, callback: Callback<ConsumerInfo[]>) {
+    debug('getApplicationConsumers() ' + appId);
+    getApplicationData(appId, function (err, appData) {
+        if (err)
+            return callback(err);
+        makeApplicationConsumers(appData, apiPlans, apiList, function (err, consumerList) {
+            if (err)
+                return callback(err);
+            if (!consumerCache.set(appId, consumerList, signal, isCompleteApplication(appData, consumerList)))
+                debug(`getApplicationConsumers(): Consumers of application ${appId} are unchanged.`);
+            return callback(null, consumerList);
+        });
+    });
+}
+
+// Skipped subscriptions and plugins with unresolved placeholders may become valid
+// without the application changing, so such applications are never skipped.
+function isCompleteApplication(appData: ApplicationData, consumerList: ConsumerInfo[]): boolean {
+    const approvedCount = appData.subscriptions.filter(appSubs => appSubs.approved).length;
+    if (consumerList.length !== approvedCount)
+        return false;
+    return consumerList.every(c => !(c.apiPlugins || []).some(p => !!(p as PortalPlugin).placeholder_errors));
+}
+
+function makeApplicationConsumers(appData: ApplicationData, apiPlans: WickedApiPlanCollection, apiList: ApiDescriptionCollection, callback: Callback<ConsumerInfo[]>) {
+    const consumerList = [];
+    const appInfo = appData.application;
+    const appSubsInfo = appData.subscriptions;
+    for (let subsIndex = 0; subsIndex < appSubsInfo.length; ++subsIndex) {
+        const appSubs = appSubsInfo[subsIndex];
+        // Only propagate approved subscriptions
+        if (!appSubs.approved)
+            continue;
+
+        let groupName = appSubs.api;
+        // Check if this API is part of a bundle
+        const apiDesc = apiList.apis.find(a => a.id === appSubs.api);
+        if (apiDesc) {
+            // API_BUNDLE: Use bundle as group name; this will mean that access tokens/API Keys for this API
+            // will also work for any other API which is part of this bundle.
+            if (apiDesc.bundle)
+                groupName = apiDesc.bundle;
+        } else {
+            warn(`enrichApplications: Could not find API configuration for API ${appSubs.api}`);
+        }
 
-                consumerList.push(consumerInfo);
+        debug(utils.getText(appSubs));
+        const consumerInfo: ConsumerInfo = {
+            consumer: {
+                username: utils.makeUserName(appSubs.application, appSubs.api),
+                custom_id: appSubs.id
+            },
+            plugins: {
+                acls: [{
+                    group: groupName
+                }]
+            }
+        };
+        if ("oauth2" == appSubs.auth) {
+            let redirectUris = appInfo.redirectUris;
+            if (!redirectUris || redirectUris.length == 0)
+                redirectUris = ['https://dummy.org'];
+            consumerInfo.plugins.oauth2 = [{
+                name: appSubs.application,
+                client_id: appSubs.clientId,
+                client_secret: appSubs.clientSecret,
+                redirect_uri: redirectUris
+            }];
+        } else if (!appSubs.auth || "key-auth" == appSubs.auth) {
+            consumerInfo.plugins["key-auth"] = [{
+                key: appSubs.apikey
+            }];
+        } else if ("basic-auth" == appSubs.auth || "hmac-auth" == appSubs.auth) {
+            let credentials: { username: string, secret: string };
+            try {
+                credentials = getSubscriptionCredentials(appSubs, consumerInfo.consumer.username);
+            } catch (credentialsErr) {
+                pluginValidation.setSubscriptionIssue(appSubs.id, credentialsErr.message);
+                continue;
+            }
+            pluginValidation.setSubscriptionIssue(appSubs.id, null);
+            if ("basic-auth" == appSubs.auth) {
+                consumerInfo.plugins["basic-auth"] = [{
+                    username: credentials.username,
+                    password: credentials.secret
+                }];
+            } else {
+                consumerInfo.plugins["hmac-auth"] = [{
+                    username: credentials.username,
+                    secret: credentials.secret
+                }];
             }
+        } else {
+            let err2 = new Error('Unknown auth strategy: ' + appSubs.auth + ', for application "' + appSubs.application + '", API "' + appSubs.api + '".');
+            return callback(err2);
         }
 
-        debug(utils.getText(consumerList));
+        // Now the API level plugins from the Plan
+        const apiPlan = getPlanById(apiPlans, appSubs.plan);
+        if (!apiPlan) {
+            const err = new Error('Unknown API plan strategy: ' + appSubs.plan + ', for application "' + appSubs.application + '", API "' + appSubs.api + '".');
+            return callback(err);
+        }
 
-        return callback(null, consumerList);
-    });
+        if (apiPlan.config && apiPlan.config.plugins) {
+            consumerInfo.apiPlugins = utils.clone(apiPlan.config.plugins);
+        }
+        else {
+            consumerInfo.apiPlugins = [];
+        }
+        const placeholderContext = { api: apiDesc && apiDesc.config, planId: apiPlan.id };
+        pluginValidation.setPlaceholderIssues(placeholders.getOwner(placeholderContext), placeholders.resolvePlugins(consumerInfo.apiPlugins, placeholderContext));
+        // Fix #148: Apply Redis also for ratelimiting from Plans
+        checkCorsAndRateLimitingPlugins(apiDesc.name, consumerInfo.apiPlugins);
+
+        consumerList.push(consumerInfo);
+    }
+
+    return callback(null, consumerList);
+}
+
+// The basic-auth and hmac-auth credentials are taken from the subscription, as wicked
+// shows them to the subscriber there, and changing them there (e.g. regenerating them)
+// updates the credentials in Kong, as for API keys: the client ID is the user name
+// (the consumer's user name if there is none), the client secret or, failing that, the
+// API key is the password or secret. Throws if the subscription has neither.
+function getSubscriptionCredentials(appSubs: WickedSubscription, consumerName: string): { username: string, secret: string } {
+    const secret = appSubs.clientSecret || appSubs.apikey;
+    if (!secret)
+        throw new Error(`wicked did not provide a client secret or API key for the ${appSubs.auth} subscription of application "${appSubs.application}" to API "${appSubs.api}".`);
+    return {
+        // Has to be unique across all consumers in Kong
+        username: appSubs.clientId || consumerName,
+        secret: secret
+    };
 }
 
 function getPlanById(apiPlans: WickedApiPlanCollection, planId: string): WickedApiPlan {
@@ -509,6 +632,10 @@ function injectAuthPlugins(apiList: ApiDescriptionCollection) {
             injectKeyAuth(thisApi);
         else if ("oauth2" == thisApi.auth)
             injectOAuth2Auth(thisApi);
+        else if ("basic-auth" == thisApi.auth)
+            injectBasicAuth(thisApi);
+        else if ("hmac-auth" == thisApi.auth)
+            injectHmacAuth(thisApi);
         else
             throw new Error("Unknown 'auth' setting: " + thisApi.auth);
     }
@@ -631,3 +758,72 @@ function injectOAuth2Auth(api: ApiDescription): void {
         }
     });
 }
+
+function injectBasicAuth(api: ApiDescription): void {
+    debug('injectBasicAuth()');
+    const plugins = checkCredentialAuthPlugins(api, 'basic-auth');
+
+    let hide_credentials = false;
+    if (api.config.api.hide_credentials)
+        hide_credentials = api.config.api.hide_credentials;
+
+    plugins.push({
+        name: 'basic-auth',
+        enabled: true,
+        config: {
+            hide_credentials: hide_credentials
+        }
+    });
+    injectAclPlugin(api, plugins);
+}
+
+function injectHmacAuth(api: ApiDescription): void {
+    debug('injectHmacAuth()');
+    const plugins = checkCredentialAuthPlugins(api, 'hmac-auth');
+
+    let hide_credentials = false;
+    if (api.config.api.hide_credentials)
+        hide_credentials = api.config.api.hide_credentials;
+
+    const pluginConfig: HmacAuthPluginConfig = {
+        hide_credentials: hide_credentials
+    };
+    const settings: HmacAuthApiSettings = api.settings || {};
+    if (settings.clock_skew)
+        pluginConfig.clock_skew = Number(settings.clock_skew);
+    if (settings.enforce_headers)
+        pluginConfig.enforce_headers = settings.enforce_headers;
+    if (settings.algorithms)
+        pluginConfig.algorithms = settings.algorithms;
+
+    plugins.push({
+        name: 'hmac-auth',
+        enabled: true,
+        config: pluginConfig
+    });
+    injectAclPlugin(api, plugins);
+}
+
+function checkCredentialAuthPlugins(api: ApiDescription, authPluginName: string): KongPlugin[] {
+    if (!api.config.plugins)
+        api.config.plugins = [];
+    const plugins = api.config.plugins;
+    if (plugins.find(plugin => plugin.name == authPluginName))
+        throw new Error(`If you use '${authPluginName}' in the apis.json, you must not provide a '${authPluginName}' plugin yourself. Remove it and retry.`);
+    if (plugins.find(plugin => plugin.name == 'acl'))
+        throw new Error(`If you use '${authPluginName}' in the apis.json, you must not provide a 'acl' plugin yourself. Remove it and retry.`);
+    return plugins;
+}
+
+function injectAclPlugin(api: ApiDescription, plugins: KongPlugin[]): void {
+    // API_BUNDLE: Is this API part of a bundle? If so, use the bundle name as the group name
+    let groupName = api.bundle ? api.bundle : api.id;
+    debug(`injectAclPlugin: Using ACL group name ${groupName}`);
+    plugins.push({
+        name: 'acl',
+        enabled: true,
+        config: {
+            whitelist: [groupName]
+        }
+    });
+}
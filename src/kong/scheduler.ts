@@ -0,0 +1,195 @@
+'use strict';
+
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:scheduler');
+
+import { ErrorCallback } from 'wicked-sdk';
+import { cron } from './cron';
+import { syncLock } from './lock';
+import { CronSchedule, ScheduledJobRun, ScheduledJobStatus } from './types';
+
+// The schedule of a job can be overridden with the env variable SCHEDULE_<JOB NAME>,
+// e.g. SCHEDULE_CONSUMERS=30m. A schedule is either an interval or a cron expression.
+// Intervals are given as a sequence of numbers with units d, h, m or s ("1h30m",
+// "90s"); a plain number means seconds. See cron.ts for the cron expressions, e.g.
+// "0 3 * * 1-5" (at 3:00 on weekdays). An empty value, "0" or "off" disables the job.
+const SCHEDULE_JITTER_PERCENT = process.env.SCHEDULE_JITTER_PERCENT ? Number(process.env.SCHEDULE_JITTER_PERCENT) : 10;
+const MAX_HISTORY = 10;
+const DEFER_DELAY = 30 * 1000; // ms
+
+const UNIT_MILLISECONDS = {
+    d: 24 * 60 * 60 * 1000,
+    h: 60 * 60 * 1000,
+    m: 60 * 1000,
+    s: 1000
+};
+
+interface ScheduledJob {
+    name: string,
+    // Zero if the job is disabled or has a cron schedule
+    interval: number,
+    cron: CronSchedule,
+    work: (callback: ErrorCallback) => void,
+    timer: any,
+    running: boolean,
+    nextRunAt?: number,
+    deferredRuns: number,
+    lastSuccessAt?: string,
+    history: ScheduledJobRun[]
+}
+
+// ===== PUBLIC INTERFACE =====
+
+export const scheduler = {
+    /**
+     * Registers a reconciliation job; the job is run according to "defaultSchedule"
+     * (see above), unless overridden by the env variable SCHEDULE_<NAME>. Call start()
+     * to start the jobs.
+     */
+    addJob: function (name: string, defaultSchedule: string, work: (callback: ErrorCallback) => void): void {
+        debug(`addJob(${name})`);
+        const envVar = `SCHEDULE_${name.toUpperCase()}`;
+        const scheduleString = (process.env.hasOwnProperty(envVar) ? process.env[envVar] : defaultSchedule).trim();
+        // Cron expressions are the schedules with more than one field
+        const isCron = /\s/.test(scheduleString);
+        const cronSchedule = isCron ? cron.parse(scheduleString) : null;
+        const interval = isCron ? 0 : parseInterval(scheduleString);
+        if (interval === null || (isCron && !cronSchedule))
+            throw new Error(`Invalid schedule "${scheduleString}" for scheduled job ${name}.`);
+        _jobs.set(name, {
+            name: name,
+            interval: interval,
+            cron: cronSchedule,
+            work: work,
+            timer: null,
+            running: false,
+            deferredRuns: 0,
+            history: []
+        });
+    },
+
+    start: function (): void {
+        debug('start()');
+        _stopped = false;
+        _jobs.forEach(job => {
+            if (job.cron) {
+                info(`Scheduling job ${job.name} at "${job.cron.expression}".`);
+                scheduleNextRun(job);
+            } else if (job.interval > 0) {
+                info(`Scheduling job ${job.name} every ${job.interval / 1000} seconds.`);
+                scheduleNextRun(job);
+            } else {
+                info(`Scheduled job ${job.name} is disabled.`);
+            }
+        });
+    },
+
+    stop: function (): void {
+        debug('stop()');
+        _stopped = true;
+        _jobs.forEach(job => {
+            if (job.timer)
+                clearTimeout(job.timer);
+            job.timer = null;
+            job.nextRunAt = null;
+        });
+    },
+
+    getStatus: function (): ScheduledJobStatus[] {
+        const status: ScheduledJobStatus[] = [];
+        _jobs.forEach(job => {
+            status.push({
+                name: job.name,
+                interval: job.interval,
+                cron: job.cron ? job.cron.expression : undefined,
+                enabled: job.interval > 0 || !!job.cron,
+                running: job.running,
+                nextRunAt: job.nextRunAt ? new Date(job.nextRunAt).toISOString() : undefined,
+                deferredRuns: job.deferredRuns,
+                lastRun: job.history.length > 0 ? job.history[job.history.length - 1] : undefined,
+                lastSuccessAt: job.lastSuccessAt,
+                history: job.history
+            });
+        });
+        return status;
+    }
+};
+
+// ===== INTERNALS =====
+
+const _jobs = new Map<string, ScheduledJob>();
+let _runCounter = 0;
+let _stopped = false;
+
+function parseInterval(intervalString: string): number {
+    if (!intervalString || intervalString === 'off' || intervalString === '0')
+        return 0;
+    if (/^[0-9]+$/.test(intervalString))
+        return Number(intervalString) * 1000;
+    const parts = intervalString.match(/^([0-9]+[dhms])+$/) && intervalString.match(/[0-9]+[dhms]/g);
+    if (!parts)
+        return null;
+    let interval = 0;
+    for (let i = 0; i < parts.length; ++i) {
+        const unit = parts[i].substring(parts[i].length - 1);
+        interval += Number(parts[i].substring(0, parts[i].length - 1)) * UNIT_MILLISECONDS[unit];
+    }
+    return interval;
+}
+
+// Jitter spreads the runs of multiple adapter instances, so that they don't all
+// hit Kong and the wicked API at the same time; cron schedules are kept exactly.
+function scheduleNextRun(job: ScheduledJob, fixedDelay?: number): void {
+    if (_stopped)
+        return;
+    let delay = fixedDelay;
+    if (!delay && job.cron) {
+        const nextTime = cron.getNextTime(job.cron, Date.now());
+        if (!nextTime) {
+            warn(`Scheduled job ${job.name} will not run again, "${job.cron.expression}" does not match any time.`);
+            job.nextRunAt = null;
+            return;
+        }
+        delay = nextTime - Date.now();
+    }
+    const jitter = job.interval * SCHEDULE_JITTER_PERCENT / 100;
+    delay = delay || Math.max(1000, Math.round(job.interval + (Math.random() * 2 - 1) * jitter));
+    job.nextRunAt = Date.now() + delay;
+    job.timer = setTimeout(() => runJob(job), delay);
+}
+
+function runJob(job: ScheduledJob): void {
+    job.timer = null;
+    // The jobs do not queue up behind other work, see lock.ts
+    if (syncLock.isLocked()) {
+        info(`Deferring scheduled job ${job.name}, ${syncLock.getOwner()} is still running.`);
+        job.deferredRuns++;
+        return scheduleNextRun(job, DEFER_DELAY);
+    }
+    job.running = true;
+    const run: ScheduledJobRun = {
+        runId: ++_runCounter,
+        status: 'running',
+        startedAt: new Date().toISOString()
+    };
+    job.history.push(run);
+    if (job.history.length > MAX_HISTORY)
+        job.history.shift();
+    info(`Running scheduled job ${job.name} (run ${run.runId}).`);
+    const startTime = Date.now();
+    syncLock.run(`scheduled job ${job.name}`, job.work, function (err) {
+        run.finishedAt = new Date().toISOString();
+        run.duration = Date.now() - startTime;
+        if (err) {
+            error(`Scheduled job ${job.name} (run ${run.runId}) failed.`);
+            error(err);
+            run.status = 'failed';
+            run.error = err.message;
+        } else {
+            info(`Scheduled job ${job.name} (run ${run.runId}) succeeded in ${run.duration}ms.`);
+            run.status = 'succeeded';
+            job.lastSuccessAt = run.finishedAt;
+        }
+        job.running = false;
+        scheduleNextRun(job);
+    });
+}
@@ -0,0 +1,192 @@
+'use strict';
+
+const async = require('async');
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:schema');
+
+import * as utils from './utils';
+import { ErrorCallback } from 'wicked-sdk';
+import { CompareOptions, PluginSchema, PluginSchemaField } from './types';
+
+const MAX_PARALLEL_CALLS = 5;
+
+// Array fields in which the order does not matter. Kong >= 1.0 gives some of these
+// the type "set" in its schemas, Kong 0.x does not know sets at all.
+const UNORDERED_FIELDS = {
+    'acl': ['whitelist', 'blacklist', 'allow', 'deny'],
+    'bot-detection': ['whitelist', 'blacklist', 'allow', 'deny'],
+    'cors': ['origins', 'methods', 'headers', 'exposed_headers'],
+    'hmac-auth': ['algorithms', 'enforce_headers'],
+    'ip-restriction': ['whitelist', 'blacklist', 'allow', 'deny'],
+    'jwt': ['claims_to_verify', 'uri_param_names', 'cookie_names'],
+    'key-auth': ['key_names'],
+    'oauth2': ['scopes']
+};
+
+// ===== PUBLIC INTERFACE =====
+
+export const pluginSchemas = {
+    /**
+     * Loads the schemas of all plugins available in Kong, unless they are already
+     * loaded for the current Kong version. Failing to load the schemas is not an
+     * error; the comparisons then work without the schemas.
+     */
+    load: function (callback: ErrorCallback): void {
+        const kongVersion = utils.getKongVersion();
+        if (!kongVersion || _schemaVersion === kongVersion)
+            return callback(null);
+        debug(`load() for Kong ${kongVersion}`);
+        utils.kongGetGlobals(function (err, globals) {
+            if (err) {
+                warn('Could not retrieve the available plugins from Kong; plugin schemas are not loaded.');
+                warn(err);
+                return callback(null);
+            }
+            const pluginNames = getAvailablePlugins(globals);
+            const schemas = new Map<string, PluginSchema>();
+            async.eachLimit(pluginNames, MAX_PARALLEL_CALLS, function (pluginName: string, callback) {
+                utils.kongGetPluginSchema(pluginName, function (err, rawSchema) {
+                    if (err) {
+                        warn(`Could not retrieve the schema of plugin ${pluginName}: ${err.message}`);
+                        return callback(null);
+                    }
+                    schemas.set(pluginName, normalizeSchema(pluginName, rawSchema));
+                    return callback(null);
+                });
+            }, function (err) {
+                if (err)
+                    return callback(err);
+                info(`Loaded the schemas of ${schemas.size} plugins for Kong ${kongVersion}.`);
+                _schemas = schemas;
+                _schemaVersion = kongVersion;
+                return callback(null);
+            });
+        });
+    },
+
+    /**
+     * True if the schemas for the current Kong version are loaded; if they are,
+     * plugins without a schema are not available in Kong.
+     */
+    isLoaded: function (): boolean {
+        return !!_schemaVersion && _schemaVersion === utils.getKongVersion();
+    },
+
+    /**
+     * Returns the schema of a plugin for the current Kong version, or null if it
+     * is not known.
+     */
+    get: function (pluginName: string): PluginSchema {
+        if (!pluginSchemas.isLoaded())
+            return null;
+        return _schemas.get(pluginName) || null;
+    },
+
+    /**
+     * The options for comparing a portal side plugin with a Kong plugin (see
+     * utils.diffObjects). Without a schema, only the known unordered fields are
+     * taken into account; with a schema, configuration properties which are only
+     * present in Kong, and do not have their default value, are detected as removed.
+     */
+    getCompareOptions: function (pluginName: string): CompareOptions {
+        const unorderedFields: string[] = UNORDERED_FIELDS[pluginName] || [];
+        const options: CompareOptions = {
+            unorderedPaths: unorderedFields.map(f => `config.${f}`),
+            removedPaths: [],
+            defaults: {}
+        };
+        const schema = pluginSchemas.get(pluginName);
+        if (schema)
+            addFieldOptions(schema.fields, 'config', options);
+        return options;
+    }
+};
+
+// ===== INTERNALS =====
+
+let _schemas = new Map<string, PluginSchema>();
+let _schemaVersion: string = null;
+
+// Kong 0.x returns an object (plugin name to true), later versions may return a list
+function getAvailablePlugins(globals: any): string[] {
+    const available = globals.plugins && globals.plugins.available_on_server;
+    if (!available)
+        return [];
+    if (Array.isArray(available))
+        return available;
+    return Object.keys(available);
+}
+
+function addFieldOptions(fields: { [name: string]: PluginSchemaField }, path: string, options: CompareOptions): void {
+    options.removedPaths.push(path);
+    for (let name in fields) {
+        const field = fields[name];
+        const fieldPath = `${path}.${name}`;
+        if (field.type === 'set' && options.unorderedPaths.indexOf(fieldPath) < 0)
+            options.unorderedPaths.push(fieldPath);
+        if (field.default !== undefined)
+            options.defaults[fieldPath] = field.default;
+        if (field.fields && !field.flexible)
+            addFieldOptions(field.fields, fieldPath, options);
+    }
+}
+
+/**
+ * Kong 0.x returns the configuration fields as an object, with nested tables
+ * described in "schema"; Kong 1.x returns lists of single-property objects, with
+ * the configuration in the "config" record.
+ */
+function normalizeSchema(pluginName: string, rawSchema: any): PluginSchema {
+    const fields = normalizeFields(rawSchema.fields);
+    if (fields.config && fields.config.fields) {
+        return {
+            name: pluginName,
+            fields: fields.config.fields
+        };
+    }
+    return {
+        name: pluginName,
+        fields: fields
+    };
+}
+
+function normalizeFields(rawFields: any): { [name: string]: PluginSchemaField } {
+    const fields = {};
+    if (!rawFields)
+        return fields;
+    if (Array.isArray(rawFields)) {
+        for (let i = 0; i < rawFields.length; ++i) {
+            const name = Object.keys(rawFields[i])[0];
+            fields[name] = normalizeField(rawFields[i][name]);
+        }
+    } else {
+        for (let name in rawFields)
+            fields[name] = normalizeField(rawFields[name]);
+    }
+    return fields;
+}
+
+function normalizeField(rawField: any): PluginSchemaField {
+    const field: PluginSchemaField = {
+        type: rawField.type
+    };
+    if (rawField.required)
+        field.required = true;
+    // Kong 1.x renders "no default" as null
+    if (rawField.default !== undefined && rawField.default !== null)
+        field.default = rawField.default;
+    const values = rawField.enum || rawField.one_of;
+    if (values)
+        field.values = values;
+    if (rawField.elements) {
+        field.elementType = rawField.elements.type;
+        if (rawField.elements.one_of)
+            field.values = rawField.elements.one_of;
+    }
+    const nestedSchema = rawField.schema;
+    if (nestedSchema && nestedSchema.flexible)
+        field.flexible = true;
+    const nestedFields = nestedSchema ? nestedSchema.fields : rawField.fields;
+    if (nestedFields)
+        field.fields = normalizeFields(nestedFields);
+    return field;
+}
@@ -0,0 +1,195 @@
+'use strict';
+
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:secrets');
+const fs = require('fs');
+
+import * as wicked from 'wicked-sdk';
+import { ObjectDiff, SyncPlan, SyncPlanEntry } from './types';
+
+// Values in plugin configurations (and any other body sent to Kong) may be references
+// to secrets instead of the secrets themselves; the references are only resolved right
+// before a request is sent to Kong (see utils.kongAction), so that the secrets do not
+// end up in the cached configurations, sync plans, statistics or logs:
+//
+//   {secret:env:NAME}             The value of the environment variable NAME
+//   {secret:file:/path/to/file}   The contents of a file (without trailing line breaks)
+//   {secret:globals:some.path}    A value from the wicked globals
+//
+// The reference has to be the complete value. Independent of references, the values
+// of the fields below are redacted whenever bodies are logged or reported.
+const SECRET_FIELDS = [
+    'key',
+    'password',
+    'secret',
+    'client_secret',
+    'provision_key',
+    'redis_password',
+    // wicked's names, e.g. in subscriptions
+    'apikey',
+    'clientSecret'
+];
+
+const REDACTED = '***';
+
+// ===== PUBLIC INTERFACE =====
+
+export const secrets = {
+    isReference: function (value: any): boolean {
+        return typeof value === 'string' && SECRET_REFERENCE_REGEX.test(value);
+    },
+
+    /**
+     * Returns a copy of the body with all secret references replaced by the
+     * secrets. Throws if a reference cannot be resolved.
+     */
+    resolve: function (body: any): any {
+        if (secrets.isReference(body))
+            return resolveReference(body);
+        if (Array.isArray(body))
+            return body.map(secrets.resolve);
+        if (body && typeof body === 'object') {
+            const resolved = {};
+            for (let prop in body)
+                resolved[prop] = secrets.resolve(body[prop]);
+            return resolved;
+        }
+        return body;
+    },
+
+    /**
+     * Returns a copy of the body in which the values of the secret fields are
+     * replaced by "***"; secret references are kept, as they are not secret.
+     */
+    redact: function (body: any): any {
+        if (!body || typeof body !== 'object')
+            return body;
+        if (Array.isArray(body))
+            return body.map(secrets.redact);
+        const redacted = {};
+        for (let prop in body)
+            redacted[prop] = redactProperty(prop, body[prop]);
+        return redacted;
+    },
+
+    /**
+     * Redacts a response of Kong to a request with the given body, resolved and as
+     * it was before resolving: Kong echoes submitted values, e.g. in the message of a
+     * unique violation of a key, so the values of the secret fields and of the secret
+     * references of the request are redacted wherever they appear in the response.
+     */
+    redactResponse: function (response: any, resolvedBody: any, body: any): any {
+        const values: string[] = [];
+        collectSecretValues(resolvedBody, body, null, values);
+        // Longer values first, in case one contains another
+        values.sort((a, b) => b.length - a.length);
+        return redactValues(secrets.redact(response), values);
+    },
+
+    /**
+     * Redacts the old and new values of differences of secret fields (see
+     * utils.diffObjects), and the secret fields within the values.
+     */
+    redactDiff: function (diff: ObjectDiff[]): ObjectDiff[] {
+        return diff.map(d => {
+            // The property name at the end of the path, e.g. "client_secret" for "oauth2[0].client_secret"
+            const prop = d.path.replace(/\[\d*\]$/, '').split('.').pop();
+            const redacted: ObjectDiff = { path: d.path, change: d.change };
+            if (d.hasOwnProperty('oldValue'))
+                redacted.oldValue = redactProperty(prop, d.oldValue);
+            if (d.hasOwnProperty('newValue'))
+                redacted.newValue = redactProperty(prop, d.newValue);
+            return redacted;
+        });
+    },
+
+    /**
+     * Redacts the portal and Kong sides, and the differences, of all entries
+     * of a sync plan.
+     */
+    redactPlan: function (plan: SyncPlan): SyncPlan {
+        const redacted = Object.assign({}, plan);
+        for (let entity in plan) {
+            const todos = plan[entity];
+            if (!todos || !todos.addList) // e.g. the ignore rules
+                continue;
+            redacted[entity] = {
+                addList: todos.addList.map(redactPlanEntry),
+                updateList: todos.updateList.map(redactPlanEntry),
+                deleteList: todos.deleteList.map(redactPlanEntry)
+            };
+        }
+        return redacted;
+    }
+};
+
+// ===== INTERNALS =====
+
+const SECRET_REFERENCE_REGEX = /^\{secret:(env|file|globals):([^}]+)\}$/;
+
+function redactProperty(prop: string, value: any): any {
+    if (SECRET_FIELDS.indexOf(prop) >= 0 && value && typeof value !== 'object' && !secrets.isReference(value))
+        return REDACTED;
+    return secrets.redact(value);
+}
+
+function collectSecretValues(resolved: any, original: any, prop: string, values: string[]): void {
+    if (resolved === null || resolved === undefined)
+        return;
+    if (typeof resolved === 'object') {
+        for (let key in resolved)
+            collectSecretValues(resolved[key], original ? original[key] : undefined, Array.isArray(resolved) ? prop : key, values);
+        return;
+    }
+    const value = String(resolved);
+    if (value && (SECRET_FIELDS.indexOf(prop) >= 0 || secrets.isReference(original)))
+        values.push(value);
+}
+
+function redactValues(body: any, values: string[]): any {
+    if (typeof body === 'string')
+        return values.reduce((redacted, value) => redacted.split(value).join(REDACTED), body);
+    if (Array.isArray(body))
+        return body.map(item => redactValues(item, values));
+    if (body && typeof body === 'object') {
+        const redacted = {};
+        for (let prop in body)
+            redacted[prop] = redactValues(body[prop], values);
+        return redacted;
+    }
+    return body;
+}
+
+function redactPlanEntry(entry: SyncPlanEntry): SyncPlanEntry {
+    const redacted = secrets.redact(entry);
+    if (entry.diff)
+        redacted.diff = secrets.redactDiff(entry.diff);
+    return redacted;
+}
+
+function resolveReference(reference: string): string {
+    const match = reference.match(SECRET_REFERENCE_REGEX);
+    const source = match[1];
+    const name = match[2];
+    switch (source) {
+        case 'env':
+            if (process.env[name] === undefined)
+                throw new Error(`Secret reference ${reference}: environment variable ${name} is not set.`);
+            return process.env[name];
+        case 'file':
+            try {
+                return fs.readFileSync(name, 'utf8').replace(/[\r\n]+$/, '');
+            } catch (err) {
+                throw new Error(`Secret reference ${reference}: could not read ${name} (${err.code || err.message}).`);
+            }
+        default: { // globals
+            let value: any = wicked.getGlobals();
+            const pathParts = name.split('.');
+            for (let i = 0; i < pathParts.length; ++i) {
+                if (!value || typeof value !== 'object' || value[pathParts[i]] === undefined)
+                    throw new Error(`Secret reference ${reference}: the globals do not contain ${name}.`);
+                value = value[pathParts[i]];
+            }
+            return value;
+        }
+    }
+}
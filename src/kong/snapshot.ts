@@ -0,0 +1,276 @@
+'use strict';
+
+const async = require('async');
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:snapshot');
+const yaml = require('js-yaml');
+
+import * as utils from './utils';
+import { kong } from './kong';
+import { pluginSchemas } from './schema';
+import { Callback, KongApiConfig, KongCollection, KongConsumer, KongPlugin, KongGlobals, KongRoute, KongService } from 'wicked-sdk';
+import { KongSnapshot, ConsumerInfo, KongApiConfigCollection, RoutePluginTodo, SnapshotPlugin, SnapshotRouteScope } from './types';
+
+// Increase this if the format of the snapshot changes incompatibly
+const SNAPSHOT_VERSION = 1;
+
+// Properties Kong generates itself; these are not part of a snapshot, so that
+// snapshots of different Kong instances can be compared.
+const GENERATED_PROPERTIES = ['id', 'created_at', 'updated_at'];
+const PLUGIN_REFERENCES = ['api_id', 'service_id', 'route_id', 'consumer_id', 'service', 'route', 'consumer'];
+
+// ===== PUBLIC INTERFACE =====
+
+export const snapshot = {
+    /**
+     * Creates a snapshot of all services, routes, plugins, consumers and consumer
+     * credentials in Kong, in the same shapes which are used when syncing. Plugins
+     * on routes (which the sync does not manage) keep their route as "route_scope",
+     * by name or by paths, and are restored with restoreRoutePlugins.
+     */
+    create: function (callback: Callback<KongSnapshot>): void {
+        debug('create()');
+        async.parallel({
+            kongGlobals: callback => utils.kongGetGlobals(callback),
+            kongApis: callback => kong.getKongApis(callback),
+            kongConsumers: callback => kong.getAllKongConsumers(callback),
+            kongRoutes: callback => utils.kongGetAllRoutes(callback),
+            kongPlugins: callback => utils.kongGetAllPlugins(callback)
+        }, function (err, results) {
+            if (err)
+                return callback(err);
+            const kongGlobals = results.kongGlobals as KongGlobals;
+            const kongApis = results.kongApis as KongApiConfigCollection;
+            const kongConsumers = results.kongConsumers as ConsumerInfo[];
+            info(`Creating snapshot of ${kongApis.apis.length} APIs and ${kongConsumers.length} consumers.`);
+
+            const apis = kongApis.apis.map(stripApiConfig);
+            const consumers = kongConsumers.map(stripConsumerInfo);
+            addRoutePlugins(kongApis, kongConsumers, apis, consumers, results.kongRoutes as KongCollection<KongRoute>, results.kongPlugins as KongCollection<KongPlugin>);
+            apis.forEach(api => api.plugins.sort(comparePlugins));
+            consumers.forEach(consumer => consumer.apiPlugins.sort(comparePlugins));
+            apis.sort((a, b) => compareNames(a.api.name, b.api.name));
+            consumers.sort((a, b) => compareNames(a.consumer.username, b.consumer.username));
+
+            return callback(null, {
+                snapshotVersion: SNAPSHOT_VERSION,
+                createdAt: new Date().toISOString(),
+                adapterVersion: utils.getVersion(),
+                kongVersion: kongGlobals.version,
+                apis: apis,
+                consumers: consumers
+            });
+        });
+    },
+
+    /**
+     * Renders a snapshot either as "json" (default) or as "yaml".
+     */
+    render: function (kongSnapshot: KongSnapshot, format: string): string {
+        if (format === 'yaml')
+            return yaml.safeDump(kongSnapshot, { noRefs: true });
+        return JSON.stringify(kongSnapshot, null, 2);
+    },
+
+    /**
+     * Parses a snapshot from either JSON or YAML; throws if the document is
+     * not a valid snapshot.
+     */
+    parse: function (text: string): KongSnapshot {
+        debug('parse()');
+        let doc;
+        if (text.trim().startsWith('{'))
+            doc = JSON.parse(text);
+        else
+            doc = yaml.safeLoad(text);
+        if (!doc || typeof doc !== 'object')
+            throw new Error('Snapshot document is empty or not an object.');
+        if (!doc.snapshotVersion || doc.snapshotVersion > SNAPSHOT_VERSION)
+            throw new Error(`Unsupported snapshot version ${doc.snapshotVersion}, expected at most ${SNAPSHOT_VERSION}.`);
+        if (!Array.isArray(doc.apis))
+            throw new Error('Snapshot document does not contain an "apis" array.');
+        if (!Array.isArray(doc.consumers))
+            throw new Error('Snapshot document does not contain a "consumers" array.');
+        return doc as KongSnapshot;
+    },
+
+    /**
+     * True for plugins of a snapshot which are specific to a route; these are not
+     * restored by the sync, but by restoreRoutePlugins.
+     */
+    isRoutePlugin: function (plugin: KongPlugin): boolean {
+        return !!(plugin as SnapshotPlugin).route_scope;
+    },
+
+    /**
+     * Compares the route specific plugins of a snapshot with Kong, and returns what
+     * has to be added or updated (see kong.restoreRoutePlugins); call this after the
+     * APIs and consumers are restored, so that their routes and IDs are known. The
+     * route of a plugin is looked up by the name, or else the paths, of its route
+     * scope; if there is no such route (yet), the route ID of the todo is null.
+     * Plugins on routes which are not in the snapshot are left alone.
+     */
+    assembleRoutePluginTodos: function (kongSnapshot: KongSnapshot, callback: Callback<RoutePluginTodo[]>): void {
+        debug('assembleRoutePluginTodos()');
+        async.parallel({
+            kongServices: callback => utils.kongGetAllServices(callback),
+            kongRoutes: callback => utils.kongGetAllRoutes(callback),
+            kongPlugins: callback => utils.kongGetAllPlugins(callback),
+            kongConsumers: callback => utils.kongGetAllConsumers(callback)
+        }, function (err, results) {
+            if (err)
+                return callback(err);
+            const serviceIds = new Map<string, string>();
+            (results.kongServices as KongCollection<KongService>).data.forEach(s => serviceIds.set(s.name, s.id));
+            const consumerIds = new Map<string, string>();
+            (results.kongConsumers as KongCollection<KongConsumer>).data.forEach(c => consumerIds.set(c.username, c.id));
+            const routes = (results.kongRoutes as KongCollection<KongRoute>).data;
+            const plugins = (results.kongPlugins as KongCollection<KongPlugin>).data;
+
+            const todos: RoutePluginTodo[] = [];
+            function addTodo(apiName: string, username: string, snapshotPlugin: SnapshotPlugin) {
+                const serviceId = serviceIds.get(apiName);
+                const route = serviceId ? findRoute(routes, serviceId, snapshotPlugin.route_scope) : null;
+                const consumerId = username ? consumerIds.get(username) || null : null;
+                const todo: RoutePluginTodo = {
+                    api: apiName,
+                    consumer: username || undefined,
+                    snapshotPlugin: snapshotPlugin,
+                    routeId: route ? route.id : null,
+                    consumerId: consumerId
+                };
+                // If the consumer does not exist (yet), neither does its plugin
+                if (route && (consumerId || !username)) {
+                    todo.kongPlugin = plugins.find(p => p.name === snapshotPlugin.name &&
+                        utils.getReferencedId(p, 'route') === route.id &&
+                        utils.getReferencedId(p, 'consumer') === consumerId) || null;
+                }
+                if (todo.kongPlugin) {
+                    todo.diff = utils.diffObjects(stripRouteScope(snapshotPlugin), todo.kongPlugin, pluginSchemas.getCompareOptions(snapshotPlugin.name));
+                    if (todo.diff.length === 0)
+                        return;
+                }
+                todos.push(todo);
+            }
+
+            for (let i = 0; i < kongSnapshot.apis.length; ++i) {
+                const apiConfig = kongSnapshot.apis[i];
+                (apiConfig.plugins || []).filter(snapshot.isRoutePlugin).forEach(p => addTodo(apiConfig.api.name, null, p));
+            }
+            for (let i = 0; i < kongSnapshot.consumers.length; ++i) {
+                const username = kongSnapshot.consumers[i].consumer.username;
+                const apiName = utils.extractApiName(username);
+                (kongSnapshot.consumers[i].apiPlugins || []).filter(snapshot.isRoutePlugin).forEach(p => addTodo(apiName, username, p));
+            }
+            return callback(null, todos);
+        });
+    }
+};
+
+// ===== INTERNALS =====
+
+function compareNames(a: string, b: string): number {
+    if (a < b)
+        return -1;
+    if (a > b)
+        return 1;
+    return 0;
+}
+
+function comparePlugins(a: KongPlugin, b: KongPlugin): number {
+    return compareNames(a.name, b.name);
+}
+
+function stripProperties(ob: any, properties: string[]): any {
+    const stripped = utils.clone(ob);
+    for (let i = 0; i < properties.length; ++i)
+        delete stripped[properties[i]];
+    return stripped;
+}
+
+function stripPlugin(plugin: KongPlugin): KongPlugin {
+    return stripProperties(plugin, GENERATED_PROPERTIES.concat(PLUGIN_REFERENCES));
+}
+
+function stripApiConfig(apiConfig: KongApiConfig): KongApiConfig {
+    const api = stripProperties(apiConfig.api, GENERATED_PROPERTIES);
+    if (api.routes)
+        api.routes = api.routes.map(route => stripProperties(route, GENERATED_PROPERTIES.concat(['service'])));
+    const plugins = (apiConfig.plugins || []).map(stripPlugin);
+    return {
+        api: api,
+        plugins: plugins
+    };
+}
+
+function stripRouteScope(snapshotPlugin: SnapshotPlugin): KongPlugin {
+    return stripProperties(snapshotPlugin, ['route_scope']);
+}
+
+// Kong >= 1.0 routes have a name
+type NamedKongRoute = KongRoute & { name?: string };
+
+function getRouteScope(route: NamedKongRoute): SnapshotRouteScope {
+    if (route.name)
+        return { name: route.name };
+    return { paths: route.paths || [] };
+}
+
+function findRoute(routes: NamedKongRoute[], serviceId: string, scope: SnapshotRouteScope): KongRoute {
+    const pathsKey = (paths: string[]) => (paths || []).slice().sort().join(' ');
+    return routes.find(route => {
+        if (utils.getReferencedId(route, 'service') !== serviceId)
+            return false;
+        if (scope.name)
+            return route.name === scope.name;
+        return pathsKey(route.paths) === pathsKey(scope.paths);
+    }) || null;
+}
+
+/**
+ * Adds the plugins on the routes of the APIs to the snapshot, with the route as their
+ * "route_scope"; these are not part of the API configurations the sync works with
+ * (see kong.getKongApis). Plugins on routes which do not belong to an API are left out.
+ */
+function addRoutePlugins(kongApis: KongApiConfigCollection, kongConsumers: ConsumerInfo[], apis: KongApiConfig[], consumers: ConsumerInfo[], routes: KongCollection<KongRoute>, plugins: KongCollection<KongPlugin>): void {
+    const routesById = new Map<string, KongRoute>();
+    routes.data.forEach(r => routesById.set(r.id, r));
+    // The snapshot APIs and consumers are in the same order as the Kong ones
+    const apisByServiceId = new Map<string, KongApiConfig>();
+    kongApis.apis.forEach((a, i) => apisByServiceId.set(a.api.id, apis[i]));
+    const consumersById = new Map<string, ConsumerInfo>();
+    kongConsumers.forEach((c, i) => consumersById.set(c.consumer.id, consumers[i]));
+
+    for (let i = 0; i < plugins.data.length; ++i) {
+        const plugin = plugins.data[i];
+        const route = routesById.get(utils.getReferencedId(plugin, 'route'));
+        if (!route)
+            continue;
+        const api = apisByServiceId.get(utils.getReferencedId(route, 'service'));
+        if (!api)
+            continue;
+        const snapshotPlugin: SnapshotPlugin = stripPlugin(plugin);
+        snapshotPlugin.route_scope = getRouteScope(route);
+        const consumerId = utils.getReferencedId(plugin, 'consumer');
+        if (consumerId) {
+            const consumer = consumersById.get(consumerId);
+            if (consumer)
+                consumer.apiPlugins.push(snapshotPlugin);
+        } else {
+            api.plugins.push(snapshotPlugin);
+        }
+    }
+}
+
+function stripConsumerInfo(consumerInfo: ConsumerInfo): ConsumerInfo {
+    const plugins = {};
+    for (let pluginName in consumerInfo.plugins) {
+        plugins[pluginName] = consumerInfo.plugins[pluginName].map(
+            credential => stripProperties(credential, GENERATED_PROPERTIES.concat(['consumer_id', 'consumer'])));
+    }
+    const apiPlugins = (consumerInfo.apiPlugins || []).map(stripPlugin);
+    return {
+        consumer: stripProperties(consumerInfo.consumer, GENERATED_PROPERTIES),
+        plugins: plugins,
+        apiPlugins: apiPlugins
+    };
+}
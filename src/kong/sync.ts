@@ -9,11 +9,21 @@ import * as wicked from 'wicked-sdk';
 
 import { kong } from './kong';
 import { portal } from './portal';
-import { ErrorCallback, KongApiConfig } from 'wicked-sdk';
-import { ApiDescriptionCollection, KongApiConfigCollection, ApiDescription, UpdateApiItem, AddApiItem, DeleteApiItem, ApiTodos, PluginTodos, AddPluginItem, UpdatePluginItem, DeletePluginItem, ConsumerInfo, UpdateConsumerItem, DeleteConsumerItem, AddConsumerItem, ConsumerTodos, ConsumerApiPluginTodos, ConsumerApiPluginAddItem, ConsumerApiPluginPatchItem, ConsumerApiPluginDeleteItem } from './types';
+import { dbless } from './dbless';
+import { consumerCache } from './cache';
+import { orphans } from './orphans';
+import { ignoreRules } from './ignore';
+import { pluginSchemas } from './schema';
+import { pluginValidation } from './validation';
+import { snapshot } from './snapshot';
+import { ErrorCallback, KongApiConfig, KongPlugin, Callback, WickedApiPlanCollection } from 'wicked-sdk';
+import { ApiDescriptionCollection, KongApiConfigCollection, ApiDescription, UpdateApiItem, AddApiItem, DeleteApiItem, ApiTodos, PluginTodos, AddPluginItem, UpdatePluginItem, DeletePluginItem, ConsumerInfo, UpdateConsumerItem, DeleteConsumerItem, AddConsumerItem, ConsumerTodos, ConsumerApiPluginTodos, ConsumerApiPluginAddItem, ConsumerApiPluginPatchItem, ConsumerApiPluginDeleteItem, SyncPlan, SyncPlanEntry, SyncPlanTodos, KongSnapshot, CompareOptions, RoutePluginTodo } from './types';
 
 const MAX_ASYNC_CALLS = 10;
 
+// Kong does not care about the order of hosts, uris and methods of a service
+const API_COMPARE_OPTIONS: CompareOptions = { unorderedPaths: ['hosts', 'uris', 'methods'] };
+
 // ========= INTERFACE FUNCTIONS ========
 
 export const sync = {
@@ -28,30 +38,29 @@ export const sync = {
             const portalApis = results.portalApis as ApiDescriptionCollection;
             const kongApis = results.kongApis as KongApiConfigCollection;
 
-            const todoLists = assembleApiTodoLists(portalApis, kongApis);
-            debug('Infos on sync APIs todo list:');
-            debug('  add items: ' + todoLists.addList.length);
-            debug('  update items: ' + todoLists.updateList.length);
-            debug('  delete items: ' + todoLists.deleteList.length);
-            //debug(utils.getText(todoLists));
-
-            async.series({
-                updateApis: function (callback) {
-                    // Will call syncPlugins
-                    kong.updateKongApis(sync, todoLists.updateList, callback);
-                },
-                deleteApis: function (callback) {
-                    kong.deleteKongApis(todoLists.deleteList, callback);
-                },
-                addApis: function (callback) {
-                    kong.addKongApis(todoLists.addList, callback);
-                }
-            }, function (err) {
-                if (err)
-                    return done(err);
-                debug("syncApis() finished.");
-                return done(null);
-            });
+            syncApiCollections(portalApis, kongApis, done);
+        });
+    },
+
+    /**
+     * Syncs only the given APIs (wicked API IDs, which are the Kong service names);
+     * APIs which no longer exist in the portal are deleted from Kong.
+     */
+    syncApisById: function (apiIds: string[], done: ErrorCallback) {
+        debug('syncApisById(): ' + apiIds.join(', '));
+        async.parallel({
+            portalApis: callback => portal.getPortalApis(callback),
+            kongApis: callback => kong.getKongApis(callback)
+        }, function (err, results) {
+            if (err)
+                return done(err);
+            const portalApis = results.portalApis as ApiDescriptionCollection;
+            const kongApis = results.kongApis as KongApiConfigCollection;
+
+            syncApiCollections(
+                { apis: portalApis.apis.filter(a => apiIds.indexOf(a.id) >= 0) },
+                { apis: kongApis.apis.filter(a => apiIds.indexOf(a.api.name) >= 0) },
+                done);
         });
     },
 
@@ -89,21 +98,213 @@ export const sync = {
         });
     },
 
+    /**
+     * Computes what syncApis would do to Kong, without changing anything; the
+     * only calls made to Kong are GET calls. The result is added to the passed
+     * in plan (create one with sync.createEmptyPlan()).
+     */
+    planApis: function (plan: SyncPlan, done: ErrorCallback): void {
+        debug('planApis()');
+        async.parallel({
+            portalApis: function (callback) { portal.getPortalApis(callback); },
+            kongApis: function (callback) { kong.getKongApis(callback); }
+        }, function (err, results) {
+            if (err)
+                return done(err);
+            const portalApis = results.portalApis as ApiDescriptionCollection;
+            const kongApis = results.kongApis as KongApiConfigCollection;
+
+            planApiCollections(plan, portalApis, kongApis);
+            return done(null);
+        });
+    },
+
+    /**
+     * Makes Kong converge to the state described in a snapshot (see snapshot.ts),
+     * using the same todo lists as when syncing with the wicked API; the snapshot
+     * simply takes the place of the portal side. Returns the plan of what was
+     * changed, or, in case of a dry run, what would be changed.
+     *
+     * Note that the regular syncs still treat wicked as the source of truth, so
+     * anything in the snapshot which differs from wicked will be changed back
+     * with the next sync.
+     */
+    restoreSnapshot: function (kongSnapshot: KongSnapshot, dryRun: boolean, callback: Callback<SyncPlan>): void {
+        debug('restoreSnapshot()');
+        const portalApis = snapshotToApiCollection(kongSnapshot);
+        const portalConsumers = snapshotToConsumers(kongSnapshot);
+        async.parallel({
+            kongApis: callback => kong.getKongApis(callback),
+            kongConsumers: callback => kong.getAllKongConsumers(callback),
+            routePluginTodos: callback => snapshot.assembleRoutePluginTodos(kongSnapshot, callback)
+        }, function (err, results) {
+            if (err)
+                return callback(err);
+            const kongApis = results.kongApis as KongApiConfigCollection;
+            const kongConsumers = results.kongConsumers as ConsumerInfo[];
+
+            // Plan on copies; applying the changes alters the portal side objects
+            const plan = sync.createEmptyPlan();
+            planApiCollections(plan, utils.clone(portalApis), kongApis);
+            planConsumerLists(plan, utils.clone(portalConsumers), kongConsumers);
+            planRoutePlugins(plan, results.routePluginTodos as RoutePluginTodo[]);
+            plan.ignoreRules = ignoreRules.getStatus();
+            plan.pluginValidation = pluginValidation.getReport();
+            if (dryRun)
+                return callback(null, plan);
+
+            info(`Restoring ${portalApis.apis.length} APIs and ${portalConsumers.length} consumers from snapshot.`);
+            async.series([
+                callback => syncApiCollections(portalApis, kongApis, callback),
+                // Re-read the consumers; changing the APIs may have removed consumer API plugins
+                callback => kong.getAllKongConsumers(function (err, currentConsumers) {
+                    if (err)
+                        return callback(err);
+                    // The consumers come from the snapshot, not from the portal's plans
+                    syncConsumers(portalConsumers, currentConsumers, false, callback);
+                }),
+                // The plugins on routes need the IDs of the restored routes and consumers
+                callback => snapshot.assembleRoutePluginTodos(kongSnapshot, function (err, todos) {
+                    if (err)
+                        return callback(err);
+                    kong.restoreRoutePlugins(todos, callback);
+                })
+            ], function (err) {
+                if (err)
+                    return callback(err);
+                info('restoreSnapshot() done.');
+                return callback(null, plan);
+            });
+        });
+    },
+
+    /**
+     * Sync for Kong without a database: Renders the complete desired state (APIs
+     * and consumers) into Kong's declarative format and posts it to /config. The
+     * todo lists are still assembled to report what changes; if nothing changes,
+     * the configuration is not posted at all.
+     *
+     * As the configuration is always replaced as a whole, the ignore rules (see
+     * ignore.ts) do not have any effect here.
+     */
+    syncDeclarative: function (callback: Callback<SyncPlan>): void {
+        debug('syncDeclarative()');
+        async.parallel({
+            portalApis: callback => portal.getPortalApis(callback),
+            kongApis: callback => kong.getKongApis(callback),
+            portalConsumers: callback => portal.getAllPortalConsumers(callback),
+            kongConsumers: callback => kong.getAllKongConsumers(callback),
+            apiPlans: callback => utils.getPlans(callback)
+        }, function (err, results) {
+            if (err)
+                return callback(err);
+            const portalApis = results.portalApis as ApiDescriptionCollection;
+            const portalConsumers = results.portalConsumers as ConsumerInfo[];
+            const kongConsumers = results.kongConsumers as ConsumerInfo[];
+
+            pluginValidation.checkPlans(results.apiPlans as WickedApiPlanCollection);
+            const plan = sync.createEmptyPlan();
+            planApiCollections(plan, portalApis, results.kongApis as KongApiConfigCollection);
+            planConsumerLists(plan, portalConsumers, kongConsumers);
+            plan.pluginValidation = pluginValidation.getReport();
+            const changeCount = countPlanChanges(plan);
+            if (changeCount === 0) {
+                info('syncDeclarative(): Kong configuration is up to date.');
+                return callback(null, plan);
+            }
+
+            info(`syncDeclarative(): Detected ${changeCount} changes, posting configuration with ${portalApis.apis.length} APIs and ${portalConsumers.length} consumers.`);
+            const declarativeConfig = dbless.renderConfig(portalApis, portalConsumers, results.kongApis as KongApiConfigCollection, kongConsumers);
+            utils.kongPostConfig(declarativeConfig, function (err) {
+                if (err)
+                    return callback(err);
+                debug('syncDeclarative() finished.');
+                return callback(null, plan);
+            });
+        });
+    },
+
     // =========== CONSUMERS ============
 
+    /**
+     * Applications which have not changed since they were last synced are skipped,
+     * together with their consumers in Kong; see cache.ts.
+     */
     syncAllConsumers: function (callback) {
         debug('syncAllConsumers()');
+        kong.getAllKongConsumers(function (err, allKongConsumers: ConsumerInfo[]) {
+            if (err)
+                return callback(err);
+            const kongUsernames = new Set<string>(allKongConsumers.map(c => c.consumer.username));
+            portal.getChangedPortalConsumers(kongUsernames, function (err, changes) {
+                if (err)
+                    return callback(err);
+                const unchangedAppIds = new Set(changes.unchangedAppIds);
+                const kongConsumers = allKongConsumers.filter(c => !unchangedAppIds.has(utils.extractAppId(c.consumer.username)));
+                info(`Syncing ${changes.consumers.length} portal consumers with ${kongConsumers.length} Kong consumers (${unchangedAppIds.size} applications are unchanged).`);
+                syncConsumers(changes.consumers, kongConsumers, true, function (err) {
+                    if (err)
+                        return callback(err);
+                    consumerCache.markSynced(changes.appIds);
+                    return callback(null);
+                });
+            });
+        });
+    },
+
+    /**
+     * Syncs the consumers of the given APIs only, e.g. after a plan of the
+     * APIs has changed.
+     */
+    syncApiConsumers: function (apiIds: string[], callback: ErrorCallback): void {
+        debug('syncApiConsumers(): ' + apiIds.join(', '));
+        const isApiConsumer = (c: ConsumerInfo) => apiIds.indexOf(utils.extractApiName(c.consumer.username)) >= 0;
         async.parallel({
             portalConsumers: callback => portal.getAllPortalConsumers(callback),
             kongConsumers: callback => kong.getAllKongConsumers(callback)
         }, function (err, result) {
             if (err)
                 return callback(err);
-            info(`Syncing ${result.portalConsumers.length} portal consumers with ${result.kongConsumers.length} Kong consumers.`);
-            syncConsumers(result.portalConsumers, result.kongConsumers, callback);
+            const portalConsumers = (result.portalConsumers as ConsumerInfo[]).filter(isApiConsumer);
+            const kongConsumers = (result.kongConsumers as ConsumerInfo[]).filter(isApiConsumer);
+            info(`Syncing ${portalConsumers.length} portal consumers with ${kongConsumers.length} Kong consumers of APIs ${apiIds.join(', ')}.`);
+            syncConsumers(portalConsumers, kongConsumers, true, callback);
+        });
+    },
+
+    /**
+     * Computes what syncAllConsumers would do to Kong, without changing anything.
+     * Consumer credentials are only reported by plugin name, not by value.
+     */
+    planAllConsumers: function (plan: SyncPlan, callback: ErrorCallback): void {
+        debug('planAllConsumers()');
+        async.parallel({
+            portalConsumers: callback => portal.getAllPortalConsumers(callback),
+            kongConsumers: callback => kong.getAllKongConsumers(callback),
+            apiPlans: callback => utils.getPlans(callback)
+        }, function (err, result) {
+            if (err)
+                return callback(err);
+            const portalConsumers = result.portalConsumers as ConsumerInfo[];
+            const kongConsumers = result.kongConsumers as ConsumerInfo[];
+            pluginValidation.checkPlans(result.apiPlans as WickedApiPlanCollection);
+            info(`Planning sync of ${portalConsumers.length} portal consumers with ${kongConsumers.length} Kong consumers.`);
+
+            planConsumerLists(plan, portalConsumers, kongConsumers);
+            return callback(null);
         });
     },
 
+    createEmptyPlan: function (): SyncPlan {
+        return {
+            apis: emptyPlanTodos(),
+            plugins: emptyPlanTodos(),
+            consumers: emptyPlanTodos(),
+            consumerPlugins: emptyPlanTodos(),
+            consumerApiPlugins: emptyPlanTodos()
+        };
+    },
+
     syncAppConsumers: function (appId, callback) {
         debug('syncAppConsumers(): ' + appId);
         async.waterfall([
@@ -114,6 +315,7 @@ export const sync = {
                 return callback(err);
             // We're fine.
             debug('syncAppConsumers() succeeded for app ' + appId);
+            consumerCache.markSynced([appId]);
             callback(null);
         });
     },
@@ -128,6 +330,7 @@ export const sync = {
      */
     deleteAppConsumers: function (appId, subscriptionList, callback) {
         debug('deleteAppConsumers(): ' + appId);
+        consumerCache.invalidate(appId);
         async.mapLimit(subscriptionList, MAX_ASYNC_CALLS, function (subsInfo, callback) {
             sync.deleteAppSubscriptionConsumer(subsInfo, callback);
         }, function (err, results) {
@@ -144,13 +347,14 @@ export const sync = {
      subsInfo: {
          application: <...>,
          api: <...>,
-         auth: <auth method> (one of key-auth, oauth2)
+         auth: <auth method> (one of key-auth, oauth2, basic-auth, hmac-auth)
          plan: <...>, // optional
          userId: <...> // optional
      }
      */
     deleteAppSubscriptionConsumer: function (subsInfo, callback) {
         debug('deleteAppSubscriptionConsumer() appId: ' + subsInfo.application + ', api: ' + subsInfo.api);
+        consumerCache.invalidate(subsInfo.application);
         kong.deleteConsumerWithUsername(utils.makeUserName(subsInfo.application, subsInfo.api), callback);
     },
 
@@ -183,13 +387,20 @@ export const sync = {
 
     addPrometheusPlugin: function (callback) {
         debug('addPrometheusPlugin()');
+        if (ignoreRules.isIgnored('global-plugins', 'prometheus')) {
+            info('The global prometheus plugin is ignored, leaving as is.');
+            setTimeout(callback, 0);
+            return;
+        }
         utils.kongGetPluginsByName('prometheus', function (err, plugins) {
             if (err)
                 return callback(err);
             const globalPlugins = plugins.data.filter(p => !p.api_id && !p.route_id && !p.service_id);
             if (globalPlugins.length === 0) {
                 info('Adding prometheus global plugin.');
-                return utils.kongPostGlobalPlugin({ name: 'prometheus', enabled: true }, callback);
+                const prometheusPlugin = { name: 'prometheus', enabled: true };
+                utils.tagEntity(prometheusPlugin, {});
+                return utils.kongPostGlobalPlugin(prometheusPlugin, callback);
             } else if (globalPlugins.length === 1) {
                 info('Detected global prometheus plugin. Leaving as is.');
                 return callback(null);
@@ -199,8 +410,30 @@ export const sync = {
         });
     },
 
+    /**
+     * Deletes the consumers in Kong which no longer have a subscription in the portal,
+     * the orphaned end user consumers (see orphans.ts), and the legacy Kong APIs. In
+     * contrast to syncAllConsumers, nothing is added or updated.
+     */
+    deleteOrphans: function (callback: ErrorCallback): void {
+        debug('deleteOrphans()');
+        const dryRun = false;
+        async.series([
+            callback => deleteOrphanConsumers(callback),
+            callback => orphans.cleanupUserConsumers(dryRun, callback),
+            callback => sync.deleteLegacyApis(callback)
+        ], function (err) {
+            if (err)
+                return callback(err);
+            return callback(null);
+        });
+    },
+
     deleteLegacyApis: function (callback) {
         debug('deleteLegacyApis()');
+        // Kong >= 1.0 no longer has APIs
+        if (utils.isKongVersionAtLeast(1, 0))
+            return callback(null);
         utils.kongGetLegacyApis(function (err, legacyApis) {
             if (err)
                 return callback(err);
@@ -212,6 +445,64 @@ export const sync = {
     }
 };
 
+function syncApiCollections(portalApis: ApiDescriptionCollection, kongApis: KongApiConfigCollection, done: ErrorCallback): void {
+    // Invalid plugins are skipped; see validation.ts
+    pluginValidation.checkApis(portalApis);
+    const todoLists = assembleApiTodoLists(portalApis, kongApis);
+    debug('Infos on sync APIs todo list:');
+    debug('  add items: ' + todoLists.addList.length);
+    debug('  update items: ' + todoLists.updateList.length);
+    debug('  delete items: ' + todoLists.deleteList.length);
+    //debug(utils.getText(todoLists));
+
+    async.series({
+        updateApis: function (callback) {
+            // Will call syncPlugins
+            kong.updateKongApis(sync, todoLists.updateList, callback);
+        },
+        deleteApis: function (callback) {
+            kong.deleteKongApis(todoLists.deleteList, callback);
+        },
+        addApis: function (callback) {
+            kong.addKongApis(todoLists.addList, callback);
+        }
+    }, function (err) {
+        if (err)
+            return done(err);
+        debug("syncApis() finished.");
+        return done(null);
+    });
+}
+
+function snapshotToApiCollection(kongSnapshot: KongSnapshot): ApiDescriptionCollection {
+    const apis: ApiDescription[] = [];
+    for (let i = 0; i < kongSnapshot.apis.length; ++i) {
+        const apiConfig = kongSnapshot.apis[i];
+        // The snapshot does not contain the wicked API definition; what is needed
+        // for syncing is the ID (which is the name of the service) and the config.
+        apis.push({
+            id: apiConfig.api.name,
+            name: apiConfig.api.name,
+            config: {
+                api: apiConfig.api,
+                // Plugins on routes are restored separately, see snapshot.assembleRoutePluginTodos
+                plugins: (apiConfig.plugins || []).filter(p => !snapshot.isRoutePlugin(p))
+            }
+        });
+    }
+    return { apis: apis };
+}
+
+function snapshotToConsumers(kongSnapshot: KongSnapshot): ConsumerInfo[] {
+    return kongSnapshot.consumers.map(c => {
+        return {
+            consumer: c.consumer,
+            plugins: c.plugins || {},
+            apiPlugins: (c.apiPlugins || []).filter(p => !snapshot.isRoutePlugin(p))
+        };
+    });
+}
+
 function syncAppConsumers(portalConsumers: ConsumerInfo[], callback: ErrorCallback): void {
     if (portalConsumers.length === 0) {
         debug('syncAppConsumers() - nothing to do (empty consumer list).');
@@ -228,11 +519,15 @@ function syncAppConsumers(portalConsumers: ConsumerInfo[], callback: ErrorCallba
             if (resultConsumers[i])
                 kongConsumers.push(resultConsumers[i]);
         }
-        syncConsumers(portalConsumers, kongConsumers, callback);
+        syncConsumers(portalConsumers, kongConsumers, true, callback);
     });
 }
 
-function syncConsumers(portalConsumers: ConsumerInfo[], kongConsumers: ConsumerInfo[], callback: ErrorCallback) {
+/**
+ * Syncs the given consumers; if the consumers are derived from the portal, the
+ * plugins of the portal's plans are validated first (checkPlans).
+ */
+function syncConsumers(portalConsumers: ConsumerInfo[], kongConsumers: ConsumerInfo[], checkPlans: boolean, callback: ErrorCallback) {
     if (portalConsumers.length === 0 && kongConsumers.length === 0) {
         debug('syncConsumers() - nothing to do (empty consumer lists).');
         setTimeout(callback, 0);
@@ -247,6 +542,17 @@ function syncConsumers(portalConsumers: ConsumerInfo[], kongConsumers: ConsumerI
     debug('  delete items: ' + todoLists.deleteList.length);
 
     async.series({
+        // Invalid plan plugins are skipped; see validation.ts
+        checkPlans: function (callback) {
+            if (!checkPlans)
+                return callback(null);
+            utils.getPlans(function (err, apiPlans) {
+                if (err)
+                    return callback(err);
+                pluginValidation.checkPlans(apiPlans);
+                return callback(null);
+            });
+        },
         addConsumers: callback => kong.addKongConsumers(todoLists.addList, callback),
         updateConsumers: callback => kong.updateKongConsumers(sync, todoLists.updateList, callback), // Will call syncConsumerApiPlugins
         deleteConsumers: callback => kong.deleteKongConsumers(todoLists.deleteList, callback)
@@ -258,6 +564,199 @@ function syncConsumers(portalConsumers: ConsumerInfo[], kongConsumers: ConsumerI
     });
 }
 
+function deleteOrphanConsumers(callback: ErrorCallback): void {
+    debug('deleteOrphanConsumers()');
+    async.parallel({
+        portalConsumers: callback => portal.getAllPortalConsumers(callback),
+        kongConsumers: callback => kong.getAllKongConsumers(callback)
+    }, function (err, result) {
+        if (err)
+            return callback(err);
+        const todoLists = assembleConsumerTodoLists(result.portalConsumers, result.kongConsumers);
+        info(`deleteOrphanConsumers(): Found ${todoLists.deleteList.length} orphaned consumers.`);
+        kong.deleteKongConsumers(todoLists.deleteList, callback);
+    });
+}
+
+// ========= PLANNING ===========
+
+function emptyPlanTodos(): SyncPlanTodos {
+    return {
+        addList: [],
+        updateList: [],
+        deleteList: []
+    };
+}
+
+function countPlanChanges(plan: SyncPlan): number {
+    let count = 0;
+    for (let entity in plan) {
+        const todos = plan[entity] as SyncPlanTodos;
+        if (!todos.addList) // e.g. the ignore rules
+            continue;
+        count += todos.addList.length + todos.updateList.length + todos.deleteList.length;
+    }
+    return count;
+}
+
+function planApiCollections(plan: SyncPlan, portalApis: ApiDescriptionCollection, kongApis: KongApiConfigCollection): void {
+    pluginValidation.checkApis(portalApis);
+    const todoLists = assembleApiTodoLists(portalApis, kongApis);
+    for (let i = 0; i < todoLists.addList.length; ++i) {
+        const portalApi = todoLists.addList[i].portalApi;
+        plan.apis.addList.push({
+            name: portalApi.id,
+            portal: portalApi.config
+        });
+    }
+    for (let i = 0; i < todoLists.updateList.length; ++i) {
+        const updateItem = todoLists.updateList[i];
+        if (updateItem.diff.length > 0) {
+            plan.apis.updateList.push({
+                name: updateItem.portalApi.id,
+                portal: updateItem.portalApi.config.api,
+                kong: updateItem.kongApi.api,
+                diff: updateItem.diff
+            });
+        }
+        planPlugins(plan, assemblePluginTodoLists(updateItem.portalApi, updateItem.kongApi));
+    }
+    for (let i = 0; i < todoLists.deleteList.length; ++i) {
+        const kongApi = todoLists.deleteList[i].kongApi;
+        plan.apis.deleteList.push({
+            name: kongApi.api.name,
+            kong: kongApi
+        });
+    }
+}
+
+function planConsumerLists(plan: SyncPlan, portalConsumers: ConsumerInfo[], kongConsumers: ConsumerInfo[]): void {
+    const todoLists = assembleConsumerTodoLists(portalConsumers, kongConsumers);
+    for (let i = 0; i < todoLists.addList.length; ++i) {
+        const portalConsumer = todoLists.addList[i].portalConsumer;
+        plan.consumers.addList.push({
+            name: portalConsumer.consumer.username,
+            portal: {
+                consumer: portalConsumer.consumer,
+                plugins: Object.keys(portalConsumer.plugins),
+                apiPlugins: portalConsumer.apiPlugins
+            }
+        });
+    }
+    for (let i = 0; i < todoLists.updateList.length; ++i) {
+        const updateItem = todoLists.updateList[i];
+        planConsumer(plan, updateItem.portalConsumer, updateItem.kongConsumer);
+    }
+    for (let i = 0; i < todoLists.deleteList.length; ++i) {
+        const kongConsumer = todoLists.deleteList[i].kongConsumer;
+        plan.consumers.deleteList.push({
+            name: kongConsumer.consumer.username,
+            kong: kongConsumer.consumer
+        });
+    }
+}
+
+function planPlugins(plan: SyncPlan, todoLists: PluginTodos): void {
+    for (let i = 0; i < todoLists.addList.length; ++i) {
+        const addItem = todoLists.addList[i];
+        plan.plugins.addList.push({
+            name: addItem.portalPlugin.name,
+            api: addItem.portalApi.id,
+            portal: addItem.portalPlugin
+        });
+    }
+    for (let i = 0; i < todoLists.updateList.length; ++i) {
+        const updateItem = todoLists.updateList[i];
+        plan.plugins.updateList.push({
+            name: updateItem.portalPlugin.name,
+            api: updateItem.portalApi.id,
+            portal: updateItem.portalPlugin,
+            kong: updateItem.kongPlugin,
+            diff: updateItem.diff
+        });
+    }
+    for (let i = 0; i < todoLists.deleteList.length; ++i) {
+        const deleteItem = todoLists.deleteList[i];
+        plan.plugins.deleteList.push({
+            name: deleteItem.kongPlugin.name,
+            api: deleteItem.kongApi.api.name,
+            kong: deleteItem.kongPlugin
+        });
+    }
+}
+
+function planRoutePlugins(plan: SyncPlan, todos: RoutePluginTodo[]): void {
+    for (let i = 0; i < todos.length; ++i) {
+        const todo = todos[i];
+        const entry: SyncPlanEntry = {
+            name: todo.snapshotPlugin.name,
+            api: todo.api,
+            consumer: todo.consumer,
+            portal: todo.snapshotPlugin
+        };
+        if (todo.kongPlugin) {
+            entry.kong = todo.kongPlugin;
+            entry.diff = todo.diff;
+            plan.plugins.updateList.push(entry);
+        } else {
+            plan.plugins.addList.push(entry);
+        }
+    }
+}
+
+function planConsumer(plan: SyncPlan, portalConsumer: ConsumerInfo, kongConsumer: ConsumerInfo): void {
+    const username = portalConsumer.consumer.username;
+    if (portalConsumer.consumer.custom_id !== kongConsumer.consumer.custom_id) {
+        plan.consumers.updateList.push({
+            name: username,
+            portal: portalConsumer.consumer,
+            kong: kongConsumer.consumer,
+            diff: [{
+                path: 'custom_id',
+                change: 'changed',
+                oldValue: kongConsumer.consumer.custom_id,
+                newValue: portalConsumer.consumer.custom_id
+            }]
+        });
+    }
+
+    const pluginTodos = kong.assembleConsumerPluginTodoLists(portalConsumer, kongConsumer);
+    for (let i = 0; i < pluginTodos.addList.length; ++i)
+        plan.consumerPlugins.addList.push({ name: pluginTodos.addList[i], consumer: username });
+    for (let i = 0; i < pluginTodos.updateList.length; ++i)
+        plan.consumerPlugins.updateList.push({ name: pluginTodos.updateList[i], consumer: username });
+    for (let i = 0; i < pluginTodos.deleteList.length; ++i)
+        plan.consumerPlugins.deleteList.push({ name: pluginTodos.deleteList[i], consumer: username });
+
+    const apiPluginTodos = assembleConsumerApiPluginsTodoLists(portalConsumer, kongConsumer);
+    for (let i = 0; i < apiPluginTodos.addList.length; ++i) {
+        const addItem = apiPluginTodos.addList[i];
+        plan.consumerApiPlugins.addList.push({
+            name: addItem.portalApiPlugin.name,
+            consumer: username,
+            portal: addItem.portalApiPlugin
+        });
+    }
+    for (let i = 0; i < apiPluginTodos.patchList.length; ++i) {
+        const patchItem = apiPluginTodos.patchList[i];
+        plan.consumerApiPlugins.updateList.push({
+            name: patchItem.portalApiPlugin.name,
+            consumer: username,
+            portal: patchItem.portalApiPlugin,
+            kong: patchItem.kongApiPlugin,
+            diff: patchItem.diff
+        });
+    }
+    for (let i = 0; i < apiPluginTodos.deleteList.length; ++i) {
+        const deleteItem = apiPluginTodos.deleteList[i];
+        plan.consumerApiPlugins.deleteList.push({
+            name: deleteItem.kongApiPlugin.name,
+            consumer: username,
+            kong: deleteItem.kongApiPlugin
+        });
+    }
+}
+
 // ========= INTERNALS ===========
 
 function assembleApiTodoLists(portalApis: ApiDescriptionCollection, kongApis: KongApiConfigCollection): ApiTodos {
@@ -272,11 +771,16 @@ function assembleApiTodoLists(portalApis: ApiDescriptionCollection, kongApis: Ko
         let portalApi = portalApis.apis[i];
 
         let kongApi = kongApis.apis.find(function (thisApi) { return thisApi.api.name == portalApi.id; });
-        if (kongApi) {
-            // Found in both Portal and Kong, check for updates
+        if (kongApi && ignoreRules.isIgnored('services', kongApi.api.name, kongApi.api.name)) {
+            debug('API ' + portalApi.id + ' is ignored, will not update.');
+            handledKongApis[kongApi.api.name] = true;
+        } else if (kongApi) {
+            // Found in both Portal and Kong, check for updates; APIs with the same
+            // name which are not tagged yet are adopted (see DECISIONS.md)
             updateList.push({
                 portalApi: portalApi,
-                kongApi: kongApi
+                kongApi: kongApi,
+                diff: utils.diffObjects(portalApi.config.api, kongApi.api, API_COMPARE_OPTIONS).concat(utils.diffOwnership(kongApi.api, { api: portalApi.id }))
             });
             handledKongApis[kongApi.api.name] = true;
         }
@@ -290,10 +794,10 @@ function assembleApiTodoLists(portalApis: ApiDescriptionCollection, kongApis: Ko
     }
 
     // Now do the mop up, clean up APIs in Kong but not in the Portal;
-    // these we want to delete.
+    // these we want to delete, unless they were not created by us.
     for (let i = 0; i < kongApis.apis.length; ++i) {
         let kongApi = kongApis.apis[i];
-        if (!handledKongApis[kongApi.api.name]) {
+        if (!handledKongApis[kongApi.api.name] && utils.isOwnedEntity(kongApi.api) && !ignoreRules.isIgnored('services', kongApi.api.name, kongApi.api.name)) {
             debug('API ' + kongApi.api.name + ' not found in portal definition, will delete.');
             deleteList.push({
                 kongApi: kongApi
@@ -308,57 +812,43 @@ function assembleApiTodoLists(portalApis: ApiDescriptionCollection, kongApis: Ko
     };
 }
 
-function shouldIgnore(name) {
-    const ignoreList = wicked.getKongAdapterIgnoreList();
-
-    if (ignoreList.length === 0) {
-        return false;
-    }
-    if (!name) {
-        return false;
-    }
-    for (let i = 0; i < ignoreList.length; ++i) {
-        if (ignoreList[i] === name) {
-            return true;
-        }
-    }
-    return false;
-}
-
 function assemblePluginTodoLists(portalApi: ApiDescription, kongApi: KongApiConfig): PluginTodos {
     debug('assemblePluginTodoLists()');
     const addList = [] as AddPluginItem[];
     const updateList = [] as UpdatePluginItem[];
     const deleteList = [] as DeletePluginItem[];
 
-    const handledKongPlugins = {};
+    const pluginMatch = matchPlugins(portalApi.config.plugins, kongApi.plugins);
     for (let i = 0; i < portalApi.config.plugins.length; ++i) {
         let portalPlugin = portalApi.config.plugins[i];
-        let kongPluginIndex = utils.getIndexBy(kongApi.plugins, function (plugin) { return plugin.name == portalPlugin.name; });
-        if (kongPluginIndex < 0) {
+        let kongPlugin = pluginMatch.matches[i];
+        if (!pluginValidation.isValid(portalPlugin)) {
+            // Leave Kong alone; a matching plugin in Kong is neither updated nor deleted
+            debug(`Plugin ${portalPlugin.name} of API ${portalApi.id} is invalid, skipping.`);
+        } else if (!kongPlugin) {
             addList.push({
                 portalApi: portalApi,
                 portalPlugin: portalPlugin,
                 kongApi: kongApi
             });
         } else {
-            let kongPlugin = kongApi.plugins[kongPluginIndex];
-            if (!utils.matchObjects(portalPlugin, kongPlugin) && !shouldIgnore(kongPlugin.name)) {
+            const diff = utils.compareObjects(utils.stripPortalPlugin(portalPlugin), kongPlugin, pluginSchemas.getCompareOptions(portalPlugin.name)).concat(utils.diffOwnership(kongPlugin, { api: portalApi.id }));
+            if (diff.length > 0 && !ignoreRules.isIgnored('api-plugins', kongPlugin.name, kongApi.api.name)) {
                 updateList.push({
                     portalApi: portalApi,
                     portalPlugin: portalPlugin,
                     kongApi: kongApi,
-                    kongPlugin: kongPlugin
+                    kongPlugin: kongPlugin,
+                    diff: diff
                 });
             } // Else: Matches, all is good
-            handledKongPlugins[kongPlugin.name] = true;
         }
     }
 
     // Mop up needed?
-    for (let i = 0; i < kongApi.plugins.length; ++i) {
-        let kongPlugin = kongApi.plugins[i];
-        if (!handledKongPlugins[kongPlugin.name] && !shouldIgnore(kongPlugin.name)) {
+    for (let i = 0; i < pluginMatch.unmatched.length; ++i) {
+        let kongPlugin = pluginMatch.unmatched[i];
+        if (utils.isOwnedEntity(kongPlugin) && !ignoreRules.isIgnored('api-plugins', kongPlugin.name, kongApi.api.name)) {
             deleteList.push({
                 kongApi: kongApi,
                 kongPlugin: kongPlugin
@@ -373,6 +863,41 @@ function assemblePluginTodoLists(portalApi: ApiDescription, kongApi: KongApiConf
     };
 }
 
+interface PluginMatch {
+    // The matching Kong plugin for each portal plugin (by index), or null
+    matches: KongPlugin[],
+    unmatched: KongPlugin[]
+}
+
+// Kong plugins know when they were created
+type CreatedKongPlugin = KongPlugin & { created_at?: number };
+
+/**
+ * Matches portal and Kong plugins by their identity (name, consumer and instance name,
+ * see utils.getPluginIdentity); several instances with the same identity are matched
+ * in the order the portal lists them, and in the order Kong created them.
+ */
+function matchPlugins(portalPlugins: KongPlugin[], kongPlugins: CreatedKongPlugin[], defaultScope?: { consumer?: string }): PluginMatch {
+    const kongPluginsByIdentity = new Map<string, KongPlugin[]>();
+    const sortedKongPlugins = kongPlugins.slice().sort((a, b) => (a.created_at || 0) - (b.created_at || 0));
+    for (let i = 0; i < sortedKongPlugins.length; ++i) {
+        const identity = utils.getPluginIdentity(sortedKongPlugins[i]);
+        if (!kongPluginsByIdentity.has(identity))
+            kongPluginsByIdentity.set(identity, []);
+        kongPluginsByIdentity.get(identity).push(sortedKongPlugins[i]);
+    }
+    const matches = portalPlugins.map(portalPlugin => {
+        const candidates = kongPluginsByIdentity.get(utils.getPluginIdentity(portalPlugin, defaultScope));
+        return candidates && candidates.length > 0 ? candidates.shift() : null;
+    });
+    const unmatched: KongPlugin[] = [];
+    kongPluginsByIdentity.forEach(candidates => unmatched.push(...candidates));
+    return {
+        matches: matches,
+        unmatched: unmatched
+    };
+}
+
 function assembleConsumerTodoLists(portalConsumers: ConsumerInfo[], kongConsumers: ConsumerInfo[]): ConsumerTodos {
     debug('assembleConsumerTodoLists()');
     const addList = [] as AddConsumerItem[];
@@ -402,20 +927,29 @@ function assembleConsumerTodoLists(portalConsumers: ConsumerInfo[], kongConsumer
             continue;
         }
 
+        handledKongConsumers[kongConsumer.consumer.username] = true;
+        if (ignoreRules.isIgnored('consumers', u, utils.extractApiName(u))) {
+            debug('Username "' + u + '" is ignored, will not update.');
+            continue;
+        }
+
         // We have the consumer in both the Portal and Kong
         debug('Found username "' + kongConsumer.consumer.username + '" in portal and Kong, check for update.');
         updateList.push({
             portalConsumer: portalConsumer,
             kongConsumer: kongConsumer
         });
-
-        handledKongConsumers[kongConsumer.consumer.username] = true;
     }
 
     // Mop up?
     for (let i = 0; i < kongConsumers.length; ++i) {
         let kongConsumer = kongConsumers[i];
-        if (!handledKongConsumers[kongConsumer.consumer.username]) {
+        // The end user consumers are not known to the portal; these are cleaned up
+        // by orphans.cleanupUserConsumers() instead. Consumers not created by us,
+        // and those of skipped subscriptions, are left alone.
+        const username = kongConsumer.consumer.username;
+        if (!handledKongConsumers[username] && !utils.isUserConsumer(username) && utils.isOwnedEntity(kongConsumer.consumer) && !ignoreRules.isIgnored('consumers', username, utils.extractApiName(username))
+            && !pluginValidation.isSkippedSubscription(kongConsumer.consumer.custom_id)) {
             debug('Username "' + kongConsumer.consumer.username + "' found in Kong, but not in portal, delete needed.");
             // Superfluous consumer; we control them
             deleteList.push({
@@ -436,10 +970,16 @@ function assembleConsumerApiPluginsTodoLists(portalConsumer: ConsumerInfo, kongC
     const addList = [] as ConsumerApiPluginAddItem[];
     const patchList = [] as ConsumerApiPluginPatchItem[];
     const deleteList = [] as ConsumerApiPluginDeleteItem[];
-    const handledPlugins = {};
+    const apiName = utils.extractApiName(portalConsumer.consumer.username);
+    // The portal side plugins do not reference the consumer yet
+    const pluginMatch = matchPlugins(portalConsumer.apiPlugins, kongConsumer.apiPlugins, { consumer: kongConsumer.consumer.id });
     for (let i = 0; i < portalConsumer.apiPlugins.length; ++i) {
         let portalApiPlugin = portalConsumer.apiPlugins[i];
-        let kongApiPlugin = kongConsumer.apiPlugins.find(function (p) { return p.name == portalApiPlugin.name; });
+        let kongApiPlugin = pluginMatch.matches[i];
+        if (!pluginValidation.isValid(portalApiPlugin)) {
+            debug(`Plugin ${portalApiPlugin.name} of consumer ${portalConsumer.consumer.username} is invalid, skipping.`);
+            continue;
+        }
         if (!kongApiPlugin) { // not found, add it
             addList.push({
                 portalConsumer: portalConsumer,
@@ -448,23 +988,22 @@ function assembleConsumerApiPluginsTodoLists(portalConsumer: ConsumerInfo, kongC
             continue;
         }
 
-        if (kongApiPlugin &&
-            !utils.matchObjects(portalApiPlugin, kongApiPlugin) && !shouldIgnore(kongApiPlugin.name)) {
+        const diff = utils.compareObjects(utils.stripPortalPlugin(portalApiPlugin), kongApiPlugin, pluginSchemas.getCompareOptions(portalApiPlugin.name));
+        if (diff.length > 0 && !ignoreRules.isIgnored('api-plugins', kongApiPlugin.name, apiName)) {
             patchList.push({
                 portalConsumer: portalConsumer,
                 portalApiPlugin: portalApiPlugin,
                 kongConsumer: kongConsumer,
-                kongApiPlugin: kongApiPlugin
+                kongApiPlugin: kongApiPlugin,
+                diff: diff
             });
         }
-
-        handledPlugins[portalApiPlugin.name] = true;
     }
 
     // Mop up
-    for (let i = 0; i < kongConsumer.apiPlugins.length; ++i) {
-        let kongApiPlugin = kongConsumer.apiPlugins[i];
-        if (!handledPlugins[kongApiPlugin.name] && !shouldIgnore(kongApiPlugin.name)) {
+    for (let i = 0; i < pluginMatch.unmatched.length; ++i) {
+        let kongApiPlugin = pluginMatch.unmatched[i];
+        if (utils.isOwnedEntity(kongApiPlugin) && !ignoreRules.isIgnored('api-plugins', kongApiPlugin.name, apiName)) {
             deleteList.push({
                 kongConsumer: kongConsumer,
                 kongApiPlugin: kongApiPlugin
@@ -1,13 +1,126 @@
 'use strict';
 
-import { KongApiConfig, KongPlugin, KongConsumer, WickedSubscription, WickedApplication, WickedApi } from "wicked-sdk";
+import { KongApiConfig, KongGlobals, KongPlugin, KongConsumer, WickedSubscription, WickedApplication, WickedApi, WickedApiSettings, WickedEvent } from "wicked-sdk";
 
 export interface SyncStatistics {
     actions: any[],
     failedComparisons: any[],
+    ignoreRules?: IgnoreRuleStatus[],
+    pluginValidation?: PluginValidationReport,
     err?: any
 }
 
+export interface AuditContext {
+    trigger?: string,
+    eventId?: string,
+    correlationId?: string
+}
+
+export interface AuditRecord {
+    date: string,
+    method: string,
+    url: string,
+    body?: any,
+    entity: string,
+    entityId?: string,
+    api?: string,
+    consumer?: string,
+    plugin?: string,
+    trigger: string,
+    eventId?: string,
+    correlationId?: string,
+    success: boolean,
+    statusCode?: number,
+    error?: string,
+    duration: number
+}
+
+export interface AuditQuery {
+    from?: number,
+    to?: number,
+    entity?: string,
+    id?: string,
+    api?: string,
+    limit?: number
+}
+
+export interface ObjectDiff {
+    path: string,
+    change: 'added' | 'removed' | 'changed',
+    oldValue?: any,
+    newValue?: any
+}
+
+// See utils.diffObjects
+export interface CompareOptions {
+    unorderedPaths?: string[],
+    removedPaths?: string[],
+    defaults?: { [path: string]: any }
+}
+
+// Kong's plugin schemas, normalized from the formats of Kong 0.x and 1.x
+export interface PluginSchemaField {
+    type: string,
+    required?: boolean,
+    default?: any,
+    // The allowed values
+    values?: any[],
+    elementType?: string,
+    // Tables with arbitrary keys
+    flexible?: boolean,
+    fields?: { [name: string]: PluginSchemaField }
+}
+
+export interface PluginSchema {
+    name: string,
+    // The fields of the plugin's "config"
+    fields: { [name: string]: PluginSchemaField }
+}
+
+export interface PluginValidationError {
+    // Relative to the plugin, e.g. "config.minute"
+    path: string,
+    message: string
+}
+
+export interface PluginValidationIssue {
+    plugin: string,
+    // The position of the plugin in the API or plan configuration
+    index: number,
+    errors: PluginValidationError[]
+}
+
+// Invalid plugins, by API ID and by plan ID; these are skipped when syncing
+export interface PluginValidationReport {
+    kongVersion: string,
+    schemasLoaded: boolean,
+    apis: { [apiId: string]: PluginValidationIssue[] },
+    plans: { [planId: string]: PluginValidationIssue[] },
+    // Plugins with placeholders which cannot be resolved, by owner (see placeholders.getOwner)
+    placeholders: { [owner: string]: PluginValidationIssue[] },
+    // Subscriptions which cannot be turned into consumers, with the reason
+    subscriptions: { [subscriptionId: string]: string }
+}
+
+// Plugins in the portal configuration may carry an "instance_name", to tell several
+// instances of the same plugin apart, and are marked with the errors of placeholders
+// which could not be resolved (see placeholders.ts); Kong knows neither property.
+export type PortalPlugin = KongPlugin & {
+    instance_name?: string,
+    placeholder_errors?: string[]
+};
+
+// The root end point of the Kong Admin API; the node configuration is only
+// partially declared
+export interface KongNodeConfiguration {
+    // "off" if Kong runs without a database
+    database?: string
+}
+
+export type KongNodeInfo = KongGlobals & {
+    configuration?: KongNodeConfiguration
+};
+
 export interface ConsumerPlugin {
     consumer_id?: string,
     created_at?: number,
@@ -53,15 +166,108 @@ export interface ConsumerInfo {
     apiPlugins?: KongPlugin[]
 }
 
+// Kong >= 1.1 supports tags on all entities
+export interface KongTaggedEntity {
+    tags?: string[]
+}
+
+// The wicked entities a Kong entity was created for; used for the ownership tags
+export interface KongOwnership {
+    api?: string,
+    application?: string,
+    subscription?: string,
+    // To tell several instances of the same plugin apart
+    pluginInstance?: string
+}
+
+export type IgnoreScope = 'services' | 'routes' | 'consumers' | 'global-plugins' | 'api-plugins';
+
+export interface IgnoreRule {
+    scope: IgnoreScope,
+    // A glob pattern (* and ?), or a regular expression enclosed in slashes, e.g. "/^manual-.*$/i"
+    pattern: string,
+    // Only apply the rule to entities belonging to these APIs (services)
+    apis?: string[],
+    description?: string
+}
+
+export interface IgnoreRuleStatus extends IgnoreRule {
+    source: string,
+    matches: number
+}
+
 export interface ApplicationData {
     subscriptions: WickedSubscription[],
     application: WickedApplication
 }
 
-export interface ApiDescription extends WickedApi {
+export interface ConsumerCacheEntry {
+    appId: string,
+    // The hash of the application as listed by the wicked API; null if unknown
+    signal: string,
+    hash: string,
+    complete: boolean,
+    usernames: string[],
+    // Only kept in memory, see cache.ts
+    consumers?: ConsumerInfo[],
+    updatedAt: number,
+    syncedHash: string,
+    syncedAt: number
+}
+
+export interface ChangedPortalConsumers {
+    // The consumers of the applications which have to be compared with Kong
+    consumers: ConsumerInfo[],
+    appIds: string[],
+    // The applications which are skipped; their consumers in Kong are left alone
+    unchangedAppIds: string[]
+}
+
+// The coalesced webhook events of one application, see kongMain.coalesceAppEvents
+export interface AppActions {
+    appId: string,
+    // Webhook data of the subscription delete events, one per API
+    subscriptionDeletes: any[],
+    // Subscriptions of the deleted application, if the application was deleted
+    appDeleteSubscriptions: any[],
+    syncConsumers: boolean,
+    eventIds: string[],
+    trigger: string
+}
+
+export interface DeadLetter {
+    eventId: string,
+    event: WickedEvent,
+    error: string,
+    attempts: number,
+    firstFailedAt: string,
+    lastFailedAt: string
+}
+
+// An API as far as syncing is concerned: the ID (the name of the service in Kong)
+// and the Kong configuration. APIs restored from a snapshot only have these, not
+// the rest of the wicked API definition.
+export interface ApiDescription extends Partial<WickedApi> {
+    id: string,
+    name?: string,
+    settings?: WickedApiSettings & HmacAuthApiSettings,
     config?: KongApiConfig
 }
 
+// Optional settings of APIs with "hmac-auth"; Kong's defaults apply if not set
+export interface HmacAuthApiSettings {
+    clock_skew?: number | string,
+    enforce_headers?: string[],
+    algorithms?: string[]
+}
+
+export interface HmacAuthPluginConfig {
+    hide_credentials: boolean,
+    clock_skew?: number,
+    enforce_headers?: string[],
+    algorithms?: string[]
+}
+
 export interface ApiDescriptionCollection {
     apis: ApiDescription[]
 }
@@ -71,9 +277,40 @@ export interface KongApiConfigCollection {
 }
 
 
+// How a snapshot refers to the route of a route specific plugin, as route IDs
+// differ between Kong instances
+export interface SnapshotRouteScope {
+    name?: string,
+    paths?: string[]
+}
+
+export type SnapshotPlugin = KongPlugin & { route_scope?: SnapshotRouteScope };
+
+// Route specific plugins are restored apart from the sync, see snapshot.restoreRoutePlugins
+export interface RoutePluginTodo {
+    api: string,
+    consumer?: string,
+    snapshotPlugin: SnapshotPlugin,
+    // Null if the route does not exist (yet)
+    routeId: string,
+    consumerId?: string,
+    kongPlugin?: KongPlugin,
+    diff?: ObjectDiff[]
+}
+
+export interface KongSnapshot {
+    snapshotVersion: number,
+    createdAt: string,
+    adapterVersion: string,
+    kongVersion: string,
+    apis: KongApiConfig[],
+    consumers: ConsumerInfo[]
+}
+
 export interface UpdateApiItem {
     portalApi: ApiDescription,
-    kongApi: KongApiConfig
+    kongApi: KongApiConfig,
+    diff: ObjectDiff[]
 }
 
 export interface AddApiItem {
@@ -94,7 +331,8 @@ export interface UpdatePluginItem {
     portalApi: ApiDescription,
     portalPlugin: KongPlugin,
     kongApi: KongApiConfig,
-    kongPlugin: KongPlugin
+    kongPlugin: KongPlugin,
+    diff: ObjectDiff[]
 }
 
 export interface AddPluginItem {
@@ -142,7 +380,8 @@ export interface ConsumerApiPluginPatchItem {
     portalConsumer: ConsumerInfo,
     portalApiPlugin: KongPlugin,
     kongConsumer: ConsumerInfo,
-    kongApiPlugin: KongPlugin
+    kongApiPlugin: KongPlugin,
+    diff: ObjectDiff[]
 }
 
 export interface ConsumerApiPluginDeleteItem {
@@ -154,4 +393,87 @@ export interface ConsumerApiPluginTodos {
     addList: ConsumerApiPluginAddItem[],
     patchList: ConsumerApiPluginPatchItem[],
     deleteList: ConsumerApiPluginDeleteItem[]
-}
\ No newline at end of file
+}
+
+export interface ConsumerPluginTodos {
+    addList: string[],
+    updateList: string[],
+    deleteList: string[]
+}
+
+export interface SyncPlanEntry {
+    name: string,
+    api?: string,
+    consumer?: string,
+    portal?: any,
+    kong?: any,
+    diff?: ObjectDiff[]
+}
+
+export interface SyncPlanTodos {
+    addList: SyncPlanEntry[],
+    updateList: SyncPlanEntry[],
+    deleteList: SyncPlanEntry[]
+}
+
+export interface SyncPlan {
+    apis: SyncPlanTodos,
+    plugins: SyncPlanTodos,
+    consumers: SyncPlanTodos,
+    consumerPlugins: SyncPlanTodos,
+    consumerApiPlugins: SyncPlanTodos,
+    ignoreRules?: IgnoreRuleStatus[],
+    pluginValidation?: PluginValidationReport
+}
+
+// See cron.ts
+export interface CronSchedule {
+    expression: string,
+    minutes: number[],
+    hours: number[],
+    daysOfMonth: number[],
+    months: number[],
+    daysOfWeek: number[],
+    anyDayOfMonth: boolean,
+    anyDayOfWeek: boolean
+}
+
+export interface ScheduledJobRun {
+    runId: number,
+    status: 'running' | 'succeeded' | 'failed',
+    startedAt: string,
+    finishedAt?: string,
+    duration?: number,
+    error?: string
+}
+
+export interface ScheduledJobStatus {
+    name: string,
+    interval: number,
+    cron?: string,
+    enabled: boolean,
+    running: boolean,
+    nextRunAt?: string,
+    deferredRuns: number,
+    lastRun?: ScheduledJobRun,
+    lastSuccessAt?: string,
+    history: ScheduledJobRun[]
+}
+
+export interface UserConsumerStatus {
+    username: string,
+    email: string,
+    api: string,
+    applicationId?: string,
+    userId?: string,
+    status: 'valid' | 'orphaned' | 'unmapped',
+    reason?: string,
+    orphanedSince?: string,
+    deleted: boolean
+}
+
+export interface UserConsumerCleanupReport {
+    dryRun: boolean,
+    gracePeriod: number,
+    consumers: UserConsumerStatus[]
+}
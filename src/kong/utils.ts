@@ -10,7 +10,11 @@ const path = require('path');
 const qs = require('querystring');
 const async = require('async');
 
-import { SyncStatistics, ConsumerPlugin } from "./types";
+import { SyncStatistics, ConsumerPlugin, ConsumerOAuth2Config, ObjectDiff, CompareOptions, KongOwnership, KongTaggedEntity, PortalPlugin } from "./types";
+import { audit } from './audit';
+import { ignoreRules } from './ignore';
+import { pluginValidation } from './validation';
+import { secrets } from './secrets';
 import { WickedGroupCollection, Callback, WickedApiPlanCollection, WickedApiPlan, KongApi, KongService, KongRoute, KongPlugin, ErrorCallback, ProtocolType, KongCollection, KongConsumer, KongGlobals, KongStatus } from "wicked-sdk";
 
 type KongServiceRoutes = { service: KongService, routes: KongRoute[] }
@@ -18,6 +22,8 @@ type KongServiceRoutes = { service: KongService, routes: KongRoute[] }
 const KONG_TIMEOUT = 5000;
 const KONG_RETRY_DELAY = 2000;
 const KONG_MAX_ATTEMPTS = 10;
+// Page size when reading collections from Kong; Kong caps this (at 1000 for 0.14)
+const KONG_PAGE_SIZE = Number(process.env.KONG_PAGE_SIZE) || 1000;
 
 export function getUtc(): number {
     return Math.floor((new Date()).getTime() / 1000);
@@ -56,10 +62,11 @@ export function getJson(ob): object {
     return ob;
 }
 
+// For logging; secret fields are redacted
 export function getText(ob): string {
     if (typeof ob === "string")
         return ob;
-    return JSON.stringify(ob, null, 2);
+    return JSON.stringify(secrets.redact(ob), null, 2);
 };
 
 export function clone(ob): any {
@@ -75,55 +82,168 @@ export function getIndexBy(anArray, predicate): number {
 };
 
 /**
- * Check for left side inclusion in right side, NOT vice versa
+ * Check for left side inclusion in right side, NOT vice versa; see diffObjects
+ * for the details, and for the options.
  */
-export function matchObjects(apiObject, kongObject) {
-    debug('matchObjects()');
-
-    const returnValue = matchObjectsInternal(apiObject, kongObject);
-    if (!returnValue) {
-        debug(' - objects do not match.');
-        debug('apiObject: ' + JSON.stringify(apiObject, null, 2));
-        debug('kongObject: ' + JSON.stringify(kongObject, null, 2));
+export function matchObjects(apiObject, kongObject, options?: CompareOptions): boolean {
+    return compareObjects(apiObject, kongObject, options).length === 0;
+};
+
+/**
+ * Same as matchObjects, but returns the list of differences instead of a boolean;
+ * the objects match if the list is empty. Non-matching comparisons are recorded
+ * in the statistics (including the differences) if requested.
+ */
+export function compareObjects(apiObject, kongObject, options?: CompareOptions): ObjectDiff[] {
+    debug('compareObjects()');
+
+    const diff = diffObjects(apiObject, kongObject, options);
+    if (diff.length > 0) {
+        debug(' - objects do not match: ' + getDiffText(diff));
+        debug('apiObject: ' + getText(apiObject));
+        debug('kongObject: ' + getText(kongObject));
         if (_keepChangingActions) {
             // Store mismatching matches; this is a debugging mechanism for the
             // integration tests mostly. Find out which objects do not match and
             // and enable checking on them.
             _statistics.failedComparisons.push({
-                apiObject: apiObject,
-                kongObject: kongObject
+                apiObject: secrets.redact(apiObject),
+                kongObject: secrets.redact(kongObject),
+                diff: secrets.redactDiff(diff)
             });
         }
     }
-    return returnValue;
-};
+    return diff;
+}
+
+// Properties which Kong generates; these are never compared
+const SERVER_MANAGED_PROPERTIES = ['id', 'created_at', 'updated_at'];
+
+/**
+ * Returns the structural differences between the portal side (api) object and the
+ * Kong object. The "oldValue" is the value in Kong, the "newValue" the one from the
+ * portal. By default, properties which are only present in the Kong object are not
+ * taken into account (Kong fills in defaults), except for array elements. The options
+ * (usually derived from a plugin schema, see schema.ts) refine this:
+ *
+ * - unorderedPaths: Arrays which are compared as sets, e.g. "config.origins"
+ * - removedPaths: Objects in which properties only present in Kong are reported as
+ *   "removed", unless they are empty or have their default value
+ * - defaults: The default values Kong uses, by path; "newValue" of removed properties
+ *
+ * Server managed properties (id, created_at, updated_at) are always ignored.
+ */
+export function diffObjects(apiObject, kongObject, options?: CompareOptions): ObjectDiff[] {
+    const diff: ObjectDiff[] = [];
+    diffValues(apiObject, kongObject, '', options || {}, diff);
+    return diff;
+}
+
+function diffValues(apiValue, kongValue, path: string, options: CompareOptions, diff: ObjectDiff[]): void {
+    if ((typeof apiValue) !== (typeof kongValue) ||
+        (apiValue !== null && typeof apiValue === "object" && kongValue === null) ||
+        Array.isArray(apiValue) !== Array.isArray(kongValue)) {
+        diff.push({ path: path, change: 'changed', oldValue: kongValue, newValue: apiValue });
+    } else if (Array.isArray(apiValue)) {
+        if (options.unorderedPaths && options.unorderedPaths.indexOf(path) >= 0)
+            diffSets(apiValue, kongValue, path, diff);
+        else
+            diffArrays(apiValue, kongValue, path, options, diff);
+    } else if (apiValue !== null && typeof apiValue === "object") {
+        diffProperties(apiValue, kongValue, path, options, diff);
+    } else if (apiValue !== kongValue && !matchesSecretReference(apiValue, kongValue)) {
+        diff.push({ path: path, change: 'changed', oldValue: kongValue, newValue: apiValue });
+    }
+}
+
+// Kong only knows the secret itself; see secrets.ts
+function matchesSecretReference(apiValue, kongValue): boolean {
+    if (!secrets.isReference(apiValue))
+        return false;
+    try {
+        return secrets.resolve(apiValue) === kongValue;
+    } catch (err) {
+        // Fails again when applying the change, with the same error
+        return false;
+    }
+}
 
-function matchObjectsInternal(apiObject, kongObject) {
+function diffProperties(apiObject, kongObject, path: string, options: CompareOptions, diff: ObjectDiff[]): void {
     for (let prop in apiObject) {
+        if (SERVER_MANAGED_PROPERTIES.indexOf(prop) >= 0)
+            continue;
+        const propPath = path ? `${path}.${prop}` : prop;
         if (!kongObject.hasOwnProperty(prop)) {
-            //console.log('Kong object does not have property "' + prop + '".');
-            return false;
+            diff.push({ path: propPath, change: 'added', newValue: apiObject[prop] });
+            continue;
         }
+        diffValues(apiObject[prop], kongObject[prop], propPath, options, diff);
+    }
+    if (!options.removedPaths || options.removedPaths.indexOf(path) < 0)
+        return;
+    for (let prop in kongObject) {
+        if (apiObject.hasOwnProperty(prop) || SERVER_MANAGED_PROPERTIES.indexOf(prop) >= 0)
+            continue;
+        const propPath = path ? `${path}.${prop}` : prop;
+        const kongValue = kongObject[prop];
+        const defaultValue = options.defaults ? options.defaults[propPath] : undefined;
+        if (isEmptyValue(kongValue) || (defaultValue !== undefined && diffObjects(defaultValue, kongValue).length === 0))
+            continue;
+        diff.push({ path: propPath, change: 'removed', oldValue: kongValue, newValue: defaultValue !== undefined ? defaultValue : null });
+    }
+}
 
-        if ((typeof apiObject[prop]) != (typeof kongObject[prop]))
-            return false;
+function diffArrays(apiArray: any[], kongArray: any[], path: string, options: CompareOptions, diff: ObjectDiff[]): void {
+    for (let i = 0; i < apiArray.length; ++i) {
+        const elementPath = `${path}[${i}]`;
+        if (i >= kongArray.length)
+            diff.push({ path: elementPath, change: 'added', newValue: apiArray[i] });
+        else
+            diffValues(apiArray[i], kongArray[i], elementPath, options, diff);
+    }
+    // Surplus array elements in Kong will be removed
+    for (let i = apiArray.length; i < kongArray.length; ++i)
+        diff.push({ path: `${path}[${i}]`, change: 'removed', oldValue: kongArray[i] });
+}
 
-        //for array, fail fast
-        if (Array.isArray(apiObject[prop]) && kongObject[prop].length !== apiObject[prop].length) {
-            return false;
-        }
+// Each element has to match a different element of the other set
+function diffSets(apiArray: any[], kongArray: any[], path: string, diff: ObjectDiff[]): void {
+    const unmatchedKong = kongArray.slice();
+    for (let i = 0; i < apiArray.length; ++i) {
+        const matchIndex = unmatchedKong.findIndex(kongValue => diffObjects(apiArray[i], kongValue).length === 0);
+        if (matchIndex >= 0)
+            unmatchedKong.splice(matchIndex, 1);
+        else
+            diff.push({ path: `${path}[]`, change: 'added', newValue: apiArray[i] });
+    }
+    for (let i = 0; i < unmatchedKong.length; ++i)
+        diff.push({ path: `${path}[]`, change: 'removed', oldValue: unmatchedKong[i] });
+}
 
-        if (typeof apiObject[prop] == "object") { // Recurse please
-            if (!matchObjectsInternal(apiObject[prop], kongObject[prop]))
-                return false;
-        } else { // other types
-            if (apiObject[prop] != kongObject[prop]) {
-                //console.log('Property "' + prop + '" does not match ("' + apiObject[prop] + '" vs "' + kongObject[prop] + '").');
-                return false;
-            }
+function isEmptyValue(value): boolean {
+    if (value === null || value === undefined)
+        return true;
+    if (Array.isArray(value))
+        return value.length === 0;
+    if (typeof value === 'object')
+        return Object.keys(value).length === 0;
+    return false;
+}
+
+/**
+ * Renders a list of differences as a short, single line text, for logging;
+ * secrets are redacted.
+ */
+export function getDiffText(diff: ObjectDiff[]): string {
+    if (!diff || diff.length === 0)
+        return '(no differences)';
+    return secrets.redactDiff(diff).map(d => {
+        switch (d.change) {
+            case 'added': return `+${d.path}=${JSON.stringify(d.newValue)}`;
+            case 'removed': return `-${d.path}=${JSON.stringify(d.oldValue)}`;
+            default: return `${d.path}: ${JSON.stringify(d.oldValue)} -> ${JSON.stringify(d.newValue)}`;
         }
-    }
-    return true;
+    }).join(', ');
 }
 
 let _kongAvailable = true; // Otherwise the first call will not succeed
@@ -147,6 +267,191 @@ export function isKongAvailable() {
     return _kongAvailable;
 }
 
+let _kongDbless = false;
+/**
+ * Set by the Kong monitor if Kong runs without a database (declarative
+ * configuration only); in that case, Kong cannot be changed entity by
+ * entity, but only by posting the complete configuration to /config.
+ */
+export function setKongDbless(kongDbless: boolean): void {
+    _kongDbless = kongDbless;
+}
+
+export function isKongDbless(): boolean {
+    return _kongDbless;
+}
+
+let _kongVersion: string = null;
+/**
+ * Set by the Kong monitor; the version Kong actually reports.
+ */
+export function setKongVersion(kongVersion: string): void {
+    _kongVersion = kongVersion;
+}
+
+export function getKongVersion(): string {
+    return _kongVersion;
+}
+
+/**
+ * True if the version Kong reports is at least major.minor.
+ */
+export function isKongVersionAtLeast(major: number, minor: number): boolean {
+    if (!_kongVersion)
+        return false;
+    const versionParts = _kongVersion.split('.').map(Number);
+    return versionParts[0] > major || (versionParts[0] === major && versionParts[1] >= minor);
+}
+
+// All entities created by the adapter carry this tag; see DECISIONS.md
+export const OWNERSHIP_TAG = 'managed-by:wicked';
+
+let _kongTagsSupported = false;
+/**
+ * Set by the Kong monitor if Kong supports tags (Kong >= 1.1); without tag
+ * support, the adapter considers all entities in Kong its own.
+ */
+export function setKongTagsSupported(kongTagsSupported: boolean): void {
+    _kongTagsSupported = kongTagsSupported;
+}
+
+export function isKongTagsSupported(): boolean {
+    return _kongTagsSupported;
+}
+
+// Kong does not allow commas, slashes and white space in tags
+function makeTag(prefix: string, value: string): string {
+    return `${prefix}:${value.replace(/[,\/\s]/g, '_')}`;
+}
+
+export function makeOwnershipTags(ownership: KongOwnership): string[] {
+    const tags = [OWNERSHIP_TAG];
+    if (ownership.api)
+        tags.push(makeTag('wicked-api', ownership.api));
+    if (ownership.application)
+        tags.push(makeTag('wicked-app', ownership.application));
+    if (ownership.subscription)
+        tags.push(makeTag('wicked-subscription', ownership.subscription));
+    if (ownership.pluginInstance)
+        tags.push(makeTag(PLUGIN_INSTANCE_TAG, ownership.pluginInstance));
+    return tags;
+}
+
+/**
+ * Adds the ownership tags to an entity which is about to be created in (or
+ * patched into) Kong; does nothing if Kong does not support tags. Tags which
+ * are already present are retained.
+ */
+export function tagEntity(entity: object, ownership: KongOwnership): void {
+    if (!_kongTagsSupported)
+        return;
+    const taggedEntity = entity as KongTaggedEntity;
+    const tags = taggedEntity.tags ? taggedEntity.tags.slice() : [];
+    const ownershipTags = makeOwnershipTags(ownership);
+    for (let i = 0; i < ownershipTags.length; ++i) {
+        if (tags.indexOf(ownershipTags[i]) < 0)
+            tags.push(ownershipTags[i]);
+    }
+    taggedEntity.tags = tags;
+}
+
+/**
+ * Returns true if the Kong entity was created by the adapter. If Kong does not
+ * support tags, all entities are considered to be owned by the adapter.
+ */
+export function isOwnedEntity(kongEntity: object): boolean {
+    if (!_kongTagsSupported)
+        return true;
+    const tags = (kongEntity as KongTaggedEntity).tags;
+    return !!tags && tags.indexOf(OWNERSHIP_TAG) >= 0;
+}
+
+/**
+ * Entities which match a portal entity by name, but are not tagged yet (e.g. as
+ * they were created before Kong supported tags), are adopted by adding the tags;
+ * this returns the corresponding difference, or an empty list.
+ */
+export function diffOwnership(kongEntity: object, ownership: KongOwnership): ObjectDiff[] {
+    if (isOwnedEntity(kongEntity))
+        return [];
+    return [{ path: 'tags', change: 'added', newValue: makeOwnershipTags(ownership) }];
+}
+
+/**
+ * Returns the ID of an entity referenced by a Kong entity; Kong < 1.0 uses
+ * e.g. "consumer_id", Kong >= 1.0 "consumer": { "id": ... }.
+ */
+export function getReferencedId(entity: any, referenceName: string): string {
+    if (entity[`${referenceName}_id`])
+        return entity[`${referenceName}_id`];
+    if (entity[referenceName] && entity[referenceName].id)
+        return entity[referenceName].id;
+    return null;
+}
+
+// The instance name of a portal side plugin is stored as a tag (with Kong >= 1.1).
+const PLUGIN_INSTANCE_TAG = 'wicked-instance';
+
+function getPluginInstanceName(plugin: PortalPlugin): string {
+    if (plugin.instance_name)
+        return plugin.instance_name;
+    const tags = (plugin as KongTaggedEntity).tags || [];
+    const prefix = PLUGIN_INSTANCE_TAG + ':';
+    const instanceTag = tags.find(t => t.startsWith(prefix));
+    return instanceTag ? instanceTag.substring(prefix.length) : null;
+}
+
+/**
+ * The identity of a plugin: its name, the consumer it applies to (none means all
+ * consumers of the service) and its instance name. The default consumer is used if
+ * the plugin does not contain the reference itself, e.g. for the portal side consumer
+ * API plugins. Without tag support in Kong, the instance name cannot be stored, and
+ * is left out; instances with the same name and consumer are then matched in order
+ * of creation. Plugins on routes are not managed by the adapter (see kong.getKongApis).
+ */
+export function getPluginIdentity(plugin: KongPlugin, defaultScope?: { consumer?: string }): string {
+    const scope = defaultScope || {};
+    const consumerId = getReferencedId(plugin, 'consumer') || scope.consumer;
+    let identity = plugin.name;
+    if (consumerId)
+        identity += ` consumer=${consumerId}`;
+    const instanceName = _kongTagsSupported ? getPluginInstanceName(plugin) : null;
+    if (instanceName)
+        identity += ` instance=${instanceName}`;
+    return identity;
+}
+
+/**
+ * Returns a copy of a portal side plugin without the properties Kong does not know.
+ */
+export function stripPortalPlugin(portalPlugin: KongPlugin): KongPlugin {
+    const plugin = clone(portalPlugin) as PortalPlugin;
+    delete plugin.instance_name;
+    delete plugin.placeholder_errors;
+    return plugin;
+}
+
+/**
+ * Returns a copy of a portal side plugin which can be posted to Kong, including
+ * the ownership tags and the instance name tag.
+ */
+export function makeKongPlugin(portalPlugin: KongPlugin, ownership: KongOwnership): KongPlugin {
+    const plugin = stripPortalPlugin(portalPlugin);
+    const instanceName = (portalPlugin as PortalPlugin).instance_name;
+    tagEntity(plugin, instanceName ? Object.assign({ pluginInstance: instanceName }, ownership) : ownership);
+    return plugin;
+}
+
+export function getConsumerOwnership(consumer: KongConsumer): KongOwnership {
+    const username = consumer.username || '';
+    const dollarIndex = username.indexOf('$');
+    return {
+        application: dollarIndex >= 0 ? username.substring(0, dollarIndex) : username,
+        api: dollarIndex >= 0 ? username.substring(dollarIndex + 1) : undefined,
+        subscription: consumer.custom_id
+    };
+}
+
 function defaultStatistics(): SyncStatistics {
     return {
         actions: [],
@@ -183,6 +488,8 @@ export function resetStatistics(keepChangingActions): void {
  */
 export function getStatistics(): SyncStatistics {
     _keepChangingActions = false;
+    _statistics.ignoreRules = ignoreRules.getStatus();
+    _statistics.pluginValidation = pluginValidation.getReport();
     return _statistics;
 };
 
@@ -199,14 +506,31 @@ function kongActionStat(method, url, body): void {
         _statistics.actions.push({
             method: method,
             url: url,
-            body: body
+            body: secrets.redact(body)
         });
     }
 }
 
+/**
+ * Wraps the callback of a changing Kong API call so that its outcome is
+ * written to the audit journal, with the audit context of the caller (the
+ * response may arrive in a different context, e.g. after retries).
+ */
+function kongActionAudit(method, url, body, expectedStatusCode, callback: Callback<any>): Callback<any> {
+    const startTime = Date.now();
+    const context = audit.getContext();
+    return function (err, result) {
+        const statusCode = err ? err.status : expectedStatusCode;
+        audit.record(method, url, body, statusCode, err, Date.now() - startTime, context);
+        return callback(err, result);
+    };
+}
+
 function kongAction(method, url, body, expectedStatusCode, callback: Callback<any>): void {
     debug(`kongAction(): ${method} "${url}"`);
     kongActionStat(method, url, body);
+    if (method != 'GET')
+        callback = kongActionAudit(method, url, body, expectedStatusCode, callback);
 
     // If for some reason, we think Kong is not available, tell the upstream
     if (!_kongAvailable) {
@@ -222,12 +546,22 @@ function kongAction(method, url, body, expectedStatusCode, callback: Callback<an
         url: kongUrl + url,
         timeout: KONG_TIMEOUT
     };
+    let resolvedBody = null;
     if (method != 'DELETE' &&
         method != 'GET') {
+        // Secret references are resolved as late as possible; see secrets.ts
+        try {
+            resolvedBody = secrets.resolve(body);
+            methodBody.body = resolvedBody;
+        } catch (err) {
+            err.status = 500;
+            return callback(err);
+        }
+        if (url === 'config')
+            methodBody.body = { config: JSON.stringify(methodBody.body.config) };
         methodBody.json = true;
-        methodBody.body = body;
         if (process.env.KONG_CURL)
-            error('curl -X ' + method + ' -d \'' + JSON.stringify(body) + '\' -H \'Content-Type: application/json\' ' + methodBody.url);
+            error('curl -X ' + method + ' -d \'' + JSON.stringify(secrets.redact(body)) + '\' -H \'Content-Type: application/json\' ' + methodBody.url);
     } else {
         if (process.env.KONG_CURL)
             error('curl -X ' + method + ' ' + methodBody.url);
@@ -251,11 +585,21 @@ function kongAction(method, url, body, expectedStatusCode, callback: Callback<an
             }
             _kongAvailable = true;
             if (expectedStatusCode != apiResponse.statusCode) {
-                const err: any = new Error('kongAction ' + method + ' on ' + url + ' did not return the expected status code (got: ' + apiResponse.statusCode + ', expected: ' + expectedStatusCode + ').');
+                // Kong explains what is wrong in the body, e.g. field-level errors for invalid plugins
+                let kongError = null;
+                try {
+                    kongError = getJson(apiBody);
+                } catch (parseErr) {
+                    kongError = apiBody; // Not JSON, e.g. from a proxy in front of Kong
+                }
+                // The message ends up in logs, the audit journal and dead letters
+                kongError = secrets.redactResponse(kongError, resolvedBody, body);
+                const err: any = new Error('kongAction ' + method + ' on ' + url + ' did not return the expected status code (got: ' + apiResponse.statusCode + ', expected: ' + expectedStatusCode + ')' + (kongError ? ': ' + JSON.stringify(kongError) : '.'));
                 err.status = apiResponse.statusCode;
+                err.body = kongError;
                 debug(method + ' /' + url);
-                debug(methodBody);
-                debug(apiBody);
+                debug(getText(secrets.redact(body)));
+                debug(getText(kongError));
                 //console.error(apiBody);
                 return callback(err);
             }
@@ -270,6 +614,35 @@ function kongGet(url: string, callback: Callback<any>) {
     kongAction('GET', url, null, 200, callback);
 };
 
+/**
+ * Reads all entities of a Kong collection, following the pagination of Kong (the
+ * "offset" of each page) until there are no more pages. The returned collection
+ * contains the data of all pages.
+ */
+function kongGetAll<T>(url: string, callback: Callback<KongCollection<T>>): void {
+    const separator = url.indexOf('?') >= 0 ? '&' : '?';
+    const firstPageUrl = `${url}${separator}size=${KONG_PAGE_SIZE}`;
+    const data: T[] = [];
+
+    function getPage(pageUrl: string) {
+        kongGet(pageUrl, function (err, page: KongCollection<T>) {
+            if (err)
+                return callback(err);
+            if (page.data) {
+                for (let i = 0; i < page.data.length; ++i)
+                    data.push(page.data[i]);
+            }
+            if (page.next && page.offset) {
+                debug(`kongGetAll(): Retrieved ${data.length} entities from ${url}, reading next page.`);
+                return getPage(`${firstPageUrl}&offset=${qs.escape(page.offset)}`);
+            }
+            return callback(null, { data: data } as KongCollection<T>);
+        });
+    }
+
+    getPage(firstPageUrl);
+}
+
 function kongPost(url, body, callback) {
     kongAction('POST', url, body, 201, callback);
 };
@@ -310,6 +683,11 @@ export function getPlans(callback: Callback<WickedApiPlanCollection>): void {
     }
 };
 
+export function invalidatePlans(): void {
+    debug('invalidatePlans()');
+    _plans = null;
+};
+
 function internalGetPlan(plans: WickedApiPlanCollection, planId, callback: Callback<WickedApiPlan>): void {
     const plan = plans.plans.find(p => p.id === planId);
     if (!plan)
@@ -353,6 +731,35 @@ export function makeUserName(appId, apiId) {
     return appId + '$' + apiId;
 };
 
+// Consumers registered for end users (OAuth2 implicit grant) have user names like
+// "email@company.com$api-name"; application IDs cannot contain an "@".
+export function isUserConsumer(consumerName: string): boolean {
+    const dollarIndex = consumerName.indexOf('$');
+    if (dollarIndex < 0)
+        return false;
+    return consumerName.substring(0, dollarIndex).indexOf('@') >= 0;
+}
+
+export function extractApiName(consumerName: string): string {
+    debug('extractApiName()');
+    // consumer names are like this: portal-application-name$api-name
+    const dollarIndex = consumerName.indexOf('$');
+    if (dollarIndex >= 0)
+        return consumerName.substring(dollarIndex + 1);
+    const atIndex = consumerName.indexOf('@');
+    if (atIndex >= 0)
+        return 'portal-api-internal';
+    return null;
+}
+
+// The application ID of a consumer name like portal-application-name$api-name
+export function extractAppId(consumerName: string): string {
+    const dollarIndex = consumerName.indexOf('$');
+    if (dollarIndex < 0)
+        return null;
+    return consumerName.substring(0, dollarIndex);
+}
+
 let _packageFile = null;
 export function getPackageJson() {
     if (!_packageFile) {
@@ -432,8 +839,8 @@ export function kongGetRaw(url: string, callback: Callback<object>): void {
 }
 
 // Service functions
-function kongGetAllServices(callback: Callback<KongCollection<KongService>>): void {
-    kongGet('services?size=100000', callback);
+export function kongGetAllServices(callback: Callback<KongCollection<KongService>>): void {
+    kongGetAll('services', callback);
 }
 
 function kongPostService(service: KongService, callback: Callback<KongService>): void {
@@ -449,8 +856,8 @@ function kongDeleteService(serviceId: string, callback: ErrorCallback): void {
 }
 
 // Route functions
-function kongGetAllRoutes(callback: Callback<KongCollection<KongRoute>>): void {
-    kongGet('routes?size=100000', callback);
+export function kongGetAllRoutes(callback: Callback<KongCollection<KongRoute>>): void {
+    kongGetAll('routes', callback);
 }
 
 function kongPostRoute(route: KongRoute, callback: Callback<KongRoute>): void {
@@ -470,7 +877,7 @@ function kongDeleteRoute(routeId: string, callback: ErrorCallback) {
 }
 
 function kongGetRouteForService(serviceId: string, callback: Callback<KongRoute[]>): void {
-    kongGet(`services/${serviceId}/routes`, function (err, routes: KongCollection<KongRoute>) {
+    kongGetAll(`services/${serviceId}/routes`, function (err, routes: KongCollection<KongRoute>) {
         if (err)
             return callback(err);
         if (routes.data.length === 0)
@@ -480,6 +887,28 @@ function kongGetRouteForService(serviceId: string, callback: Callback<KongRoute[
     })
 }
 
+// Kong >= 1.0 routes have a name
+type NamedKongRoute = KongRoute & { name?: string };
+
+// Routes are matched by name (Kong >= 1.0) and by their paths
+function isIgnoredRoute(route: NamedKongRoute, serviceName: string): boolean {
+    if (route.name && ignoreRules.isIgnored('routes', route.name, serviceName))
+        return true;
+    const paths = route.paths || [];
+    for (let i = 0; i < paths.length; ++i) {
+        if (ignoreRules.isIgnored('routes', paths[i], serviceName))
+            return true;
+    }
+    return false;
+}
+
+function tagServiceAndRoutes(apiName: string, service: KongService, routes: KongRoute[]): void {
+    const ownership = { api: apiName };
+    tagEntity(service, ownership);
+    for (let i = 0; i < routes.length; ++i)
+        tagEntity(routes[i], ownership);
+}
+
 // API functions
 export function kongGetAllApis(callback: Callback<KongCollection<KongApi>>): void {
     debug('kongGetAllApis()');
@@ -513,6 +942,9 @@ export function kongGetAllApis(callback: Callback<KongCollection<KongApi>>): voi
                 warn(`kongGetAllApis: Route ${r.id} with paths ${r.paths} has an unknown service id ${r.service.id}`);
                 continue;
             }
+            // Ignored routes are not part of the API, so that they don't show up as differences
+            if (isIgnoredRoute(r, item.service.name))
+                continue;
 
             item.routes.push(r);
         }
@@ -520,7 +952,12 @@ export function kongGetAllApis(callback: Callback<KongCollection<KongApi>>): voi
         //Step 3: assemble APIs
         const kongApis: KongApi[] = [];
         for (let entry of serviceIdMap.entries()) {
-            kongApis.push(wicked.kongServiceAndRoutesToApi(entry[1].service, entry[1].routes));
+            const kongApi = wicked.kongServiceAndRoutesToApi(entry[1].service, entry[1].routes);
+            // The ownership tags of the service apply to the API
+            const serviceTags = (entry[1].service as KongTaggedEntity).tags;
+            if (serviceTags)
+                (kongApi as KongTaggedEntity).tags = serviceTags;
+            kongApis.push(kongApi);
         }
 
         return callback(null, {
@@ -533,12 +970,13 @@ export function kongGetAllApis(callback: Callback<KongCollection<KongApi>>): voi
 export function kongGetApiPlugins(apiId: string, callback: Callback<KongCollection<KongPlugin>>): void {
     debug(`kongGetApiPlugins(${apiId})`);
     // kongGet(`apis/${apiId}/plugins?size=1000000`, callback);
-    kongGet(`services/${apiId}/plugins?size=1000000`, callback);
+    kongGetAllPluginsOf(`services/${apiId}/plugins`, callback);
 }
 
 export function kongPostApi(apiConfig: KongApi, callback: Callback<KongApi>): void {
     debug('kongPostApi()');
     const { service, routes } = wicked.kongApiToServiceAndRoutes(apiConfig);
+    tagServiceAndRoutes(apiConfig.name, service, routes);
     let persistedService: KongService = null;
     let persistedRoute: KongRoute[] = [];
 
@@ -589,18 +1027,22 @@ export function kongPatchApi(apiId: string, apiConfig: KongApi, callback: Callba
     debug('apiConfig: ' + JSON.stringify(apiConfig, null, 2));
 
     const { service, routes } = wicked.kongApiToServiceAndRoutes(apiConfig);
+    // Routes are replaced (PUT), so they need the tags again
+    tagServiceAndRoutes(apiConfig.name, service, routes);
     let persistedService: KongService = null;
     let persistedRoute: KongRoute[] = [];
 
     service.id = apiId;
 
-    kongGetRouteForService(apiId, function (err, existingRoutes: KongRoute[]) {
+    kongGetRouteForService(apiId, function (err, allRoutes: KongRoute[]) {
         if (err)
             return err;
 
-        if (!existingRoutes) {
+        if (!allRoutes) {
             warn(`kongGetRouteForService: Service ${apiId}, no routes returned`);
         }
+        // Ignored routes are neither replaced nor deleted
+        const existingRoutes = allRoutes ? allRoutes.filter(r => !isIgnoredRoute(r, apiConfig.name)) : null;
 
         debug('Existing Routes: ' + JSON.stringify(existingRoutes, null, 2));
 
@@ -701,8 +1143,8 @@ export function kongPatchApi(apiId: string, apiConfig: KongApi, callback: Callba
     //kongPatch(`apis/${apiId}`, apiConfig, callback);
 }
 
-export function kongDeleteApi(apiId: string, callback: ErrorCallback): void {
-    debug(`kongDeleteApi(${apiId})`);
+export function kongDeleteApi(apiId: string, apiName: string, callback: ErrorCallback): void {
+    debug(`kongDeleteApi(${apiId}, ${apiName})`);
     kongGetRouteForService(apiId, function (err, routes: KongRoute[]) {
         if (err)
             return callback(err);
@@ -710,6 +1152,19 @@ export function kongDeleteApi(apiId: string, callback: ErrorCallback): void {
         if (!routes)
             return callback(new Error(`Could not retrieve route for service ${apiId}`));
 
+        // Kong does not delete services which still have routes; routes which are
+        // ignored, or which were added by someone else, are kept
+        const ignoredRoutes = routes.filter(r => isIgnoredRoute(r, apiName));
+        if (ignoredRoutes.length > 0) {
+            warn(`kongDeleteApi: Service ${apiName} has ${ignoredRoutes.length} ignored routes, not deleting it.`);
+            return callback(null);
+        }
+        const foreignRoutes = routes.filter(r => !isOwnedEntity(r));
+        if (foreignRoutes.length > 0) {
+            warn(`kongDeleteApi: Service ${apiName} has ${foreignRoutes.length} routes which are not tagged as managed by wicked, not deleting it.`);
+            return callback(null);
+        }
+
         let flow: ((...args: any[]) => void)[] = [];
 
         flow.push(
@@ -755,7 +1210,7 @@ export function kongDeleteApi(apiId: string, callback: ErrorCallback): void {
 export function kongPostApiPlugin(apiId: string, plugin: KongPlugin, callback: Callback<KongPlugin>): void {
     debug(`kongPostApiPlugin(${apiId}, ${plugin.name})`);
     //kongPost(`apis/${apiId}/plugins`, plugin, callback);
-    kongPost(`services/${apiId}/plugins`, plugin, callback);
+    kongPost(`services/${apiId}/plugins`, makeKongPluginBody(plugin), withNormalizedPlugin(callback));
 }
 
 export function kongPatchApiPlugin(apiId: string, pluginId: string, plugin: KongPlugin, callback: Callback<KongPlugin>): void {
@@ -763,9 +1218,11 @@ export function kongPatchApiPlugin(apiId: string, pluginId: string, plugin: Kong
     // //kongPatch(`apis/${apiId}/plugins/${pluginId}`, plugin, callback);
     // if (plugin.service_id !== apiId)
     //     throw new Error('PATCH API/Service Plugin: apiId does not match serviceId in plugin');
-    plugin.service_id = apiId;
+    // Kong >= 1.0 only takes the ID of the service, and keeps it anyway
+    if (!isKongVersionAtLeast(1, 0))
+        plugin.service_id = apiId;
     plugin.id = pluginId;
-    kongPatch(`plugins/${pluginId}`, plugin, callback);
+    kongPatch(`plugins/${pluginId}`, makeKongPluginBody(plugin), withNormalizedPlugin(callback));
 }
 
 export function kongDeleteApiPlugin(apiId: string, pluginId: string, callback: ErrorCallback): void {
@@ -776,11 +1233,11 @@ export function kongDeleteApiPlugin(apiId: string, pluginId: string, callback: E
 
 // Consumer functions
 export function kongGetAllConsumers(callback: Callback<KongCollection<KongConsumer>>): void {
-    kongGet('consumers?size=100000', callback);
+    kongGetAll('consumers', callback);
 }
 
 export function kongGetConsumersByCustomId(customId: string, callback: Callback<KongCollection<KongConsumer>>): void {
-    kongGet('consumers?custom_id=' + qs.escape(customId), callback);
+    kongGetAll('consumers?custom_id=' + qs.escape(customId), callback);
 }
 
 export function kongGetConsumerByName(username: string, callback: Callback<KongConsumer>): void {
@@ -788,11 +1245,34 @@ export function kongGetConsumerByName(username: string, callback: Callback<KongC
 }
 
 export function kongGetConsumerPluginData(consumerId: string, pluginName: string, callback: Callback<KongCollection<object>>): void {
-    kongGet(`consumers/${consumerId}/${pluginName}`, callback);
+    kongGetAllCredentialsOf(pluginName, `consumers/${consumerId}/${pluginName}`, callback);
+}
+
+// Maps the consumer plugin names to the collections containing the credentials of all consumers
+const CONSUMER_PLUGIN_COLLECTIONS = {
+    'acls': 'acls',
+    'oauth2': 'oauth2',
+    'key-auth': 'key-auths',
+    'basic-auth': 'basic-auths',
+    'hmac-auth': 'hmac-auths'
+};
+
+export function kongGetAllConsumerPluginData(pluginName: string, callback: Callback<KongCollection<ConsumerPlugin>>): void {
+    const collection = CONSUMER_PLUGIN_COLLECTIONS[pluginName];
+    if (!collection)
+        return callback(new Error(`Unknown consumer plugin ${pluginName}`));
+    kongGetAllCredentialsOf(pluginName, collection, callback);
 }
 
 export function kongGetApiPluginsByConsumer(apiId: string, consumerId: string, callback: Callback<KongCollection<KongPlugin>>): void {
-    kongGet(`services/${apiId}/plugins?consumer_id=${qs.escape(consumerId)}`, callback);
+    // Kong >= 1.0 cannot filter plugins by consumer
+    if (!isKongVersionAtLeast(1, 0))
+        return kongGetAllPluginsOf(`services/${apiId}/plugins?consumer_id=${qs.escape(consumerId)}`, callback);
+    kongGetAllPluginsOf(`services/${apiId}/plugins`, function (err, plugins) {
+        if (err)
+            return callback(err);
+        return callback(null, { data: plugins.data.filter(plugin => plugin.consumer_id === consumerId) } as KongCollection<KongPlugin>);
+    });
 }
 
 export function kongPostConsumer(consumer: KongConsumer, callback: Callback<KongConsumer>): void {
@@ -800,7 +1280,39 @@ export function kongPostConsumer(consumer: KongConsumer, callback: Callback<Kong
 }
 
 export function kongPostConsumerPlugin(consumerId: string, pluginName: string, plugin: ConsumerPlugin, callback: Callback<KongPlugin>): void {
-    kongPost(`consumers/${consumerId}/${pluginName}`, plugin, callback);
+    kongPost(`consumers/${consumerId}/${pluginName}`, makeKongCredentialBody(pluginName, plugin), callback);
+}
+
+// Kong >= 1.0 calls the redirect URIs of OAuth2 credentials "redirect_uris"
+type KongOAuth2Credential = ConsumerOAuth2Config & { redirect_uris?: string[] };
+
+function normalizeKongCredential(pluginName: string, credential: ConsumerPlugin): ConsumerPlugin {
+    normalizeReferences(credential, ['consumer']);
+    if (pluginName === 'oauth2') {
+        const oauth2Credential = credential as KongOAuth2Credential;
+        if (oauth2Credential.redirect_uris && !oauth2Credential.redirect_uri)
+            oauth2Credential.redirect_uri = oauth2Credential.redirect_uris;
+        delete oauth2Credential.redirect_uris;
+    }
+    return credential;
+}
+
+function makeKongCredentialBody(pluginName: string, credential: ConsumerPlugin): ConsumerPlugin {
+    if (pluginName !== 'oauth2' || !isKongVersionAtLeast(1, 0))
+        return credential;
+    const body = Object.assign({}, credential) as KongOAuth2Credential;
+    body.redirect_uris = body.redirect_uri;
+    delete body.redirect_uri;
+    return body;
+}
+
+function kongGetAllCredentialsOf(pluginName: string, url: string, callback: Callback<KongCollection<ConsumerPlugin>>): void {
+    kongGetAll(url, function (err, credentials: KongCollection<ConsumerPlugin>) {
+        if (err)
+            return callback(err);
+        credentials.data.forEach(credential => normalizeKongCredential(pluginName, credential));
+        return callback(null, credentials);
+    });
 }
 
 export function kongDeleteConsumerPlugin(consumerId: string, pluginName: string, pluginId: string, callback: ErrorCallback): void {
@@ -825,14 +1337,92 @@ export function kongGetStatus(callback: Callback<KongStatus>): void {
     kongGet('status', callback);
 }
 
+export function kongGetPluginSchema(pluginName: string, callback: Callback<object>): void {
+    kongGet(`plugins/schema/${qs.escape(pluginName)}`, callback);
+}
+
+// Only for Kong without a database; replaces the entire configuration of Kong. Kong
+// takes the configuration as a string; kongAction serializes it after resolving the
+// secret references in it.
+export function kongPostConfig(declarativeConfig: object, callback: Callback<object>): void {
+    kongPost('config', { config: declarativeConfig }, callback);
+}
+
 // Global Plugin functions
 
 export function kongGetPluginsByName(pluginName: string, callback: Callback<KongCollection<KongPlugin>>): void {
-    kongGet(`plugins?name=${qs.escape(pluginName)}&size=1000000`, callback);
+    kongGetAllPluginsOf(`plugins?name=${qs.escape(pluginName)}`, callback);
+}
+
+export function kongGetAllPlugins(callback: Callback<KongCollection<KongPlugin>>): void {
+    kongGetAllPluginsOf('plugins', callback);
 }
 
 export function kongPostGlobalPlugin(plugin: KongPlugin, callback: Callback<KongPlugin>): void {
-    kongPost('plugins', plugin, callback);
+    kongPost('plugins', makeKongPluginBody(plugin), withNormalizedPlugin(callback));
+}
+
+// Only used when restoring snapshots; the adapter itself does not manage plugins on routes
+export function kongPostRoutePlugin(routeId: string, plugin: KongPlugin, callback: Callback<KongPlugin>): void {
+    kongPost(`routes/${routeId}/plugins`, makeKongPluginBody(plugin), withNormalizedPlugin(callback));
+}
+
+export function kongPatchPlugin(pluginId: string, plugin: KongPlugin, callback: Callback<KongPlugin>): void {
+    kongPatch(`plugins/${pluginId}`, makeKongPluginBody(plugin), withNormalizedPlugin(callback));
+}
+
+// Kong >= 1.0 references other entities as objects, e.g. "consumer": { "id": ... },
+// Kong 0.x as e.g. "consumer_id". The adapter works with the latter; plugins and
+// consumer credentials are converted when they are read from, and sent to, Kong.
+const PLUGIN_REFERENCES = ['service', 'route', 'consumer'];
+
+function normalizeReferences(entity: object, referenceNames: string[]): void {
+    for (let i = 0; i < referenceNames.length; ++i) {
+        const referenceName = referenceNames[i];
+        if (!entity.hasOwnProperty(referenceName))
+            continue;
+        const reference = entity[referenceName];
+        if (reference && reference.id)
+            entity[`${referenceName}_id`] = reference.id;
+        delete entity[referenceName];
+    }
+}
+
+function normalizeKongPlugin(plugin: KongPlugin): KongPlugin {
+    normalizeReferences(plugin, PLUGIN_REFERENCES);
+    return plugin;
+}
+
+function makeKongPluginBody(plugin: KongPlugin): KongPlugin {
+    if (!isKongVersionAtLeast(1, 0))
+        return plugin;
+    const body = Object.assign({}, plugin);
+    for (let i = 0; i < PLUGIN_REFERENCES.length; ++i) {
+        const referenceName = PLUGIN_REFERENCES[i];
+        const referencedId = body[`${referenceName}_id`];
+        if (referencedId === undefined)
+            continue;
+        body[referenceName] = referencedId ? { id: referencedId } : null;
+        delete body[`${referenceName}_id`];
+    }
+    return body;
+}
+
+function withNormalizedPlugin(callback: Callback<KongPlugin>): Callback<KongPlugin> {
+    return function (err, plugin) {
+        if (err)
+            return callback(err);
+        return callback(null, normalizeKongPlugin(plugin));
+    };
+}
+
+function kongGetAllPluginsOf(url: string, callback: Callback<KongCollection<KongPlugin>>): void {
+    kongGetAll(url, function (err, plugins: KongCollection<KongPlugin>) {
+        if (err)
+            return callback(err);
+        plugins.data.forEach(normalizeKongPlugin);
+        return callback(null, plugins);
+    });
 }
 
 export function kongDeletePlugin(pluginId: string, callback: ErrorCallback): void {
@@ -842,7 +1432,7 @@ export function kongDeletePlugin(pluginId: string, callback: ErrorCallback): voi
 // Legacy API functions
 
 export function kongGetLegacyApis(callback: Callback<KongCollection<KongApi>>): void {
-    kongGet('apis', callback);
+    kongGetAll('apis', callback);
 }
 
 export function kongDeleteLegacyApi(apiName: string, callback: ErrorCallback): void {
@@ -0,0 +1,231 @@
+'use strict';
+
+const { debug, info, warn, error } = require('portal-env').Logger('kong-adapter:validation');
+
+import * as utils from './utils';
+import { pluginSchemas } from './schema';
+import { KongPlugin, WickedApiPlanCollection } from 'wicked-sdk';
+import { ApiDescriptionCollection, PluginSchemaField, PluginValidationError, PluginValidationIssue, PluginValidationReport, PortalPlugin } from './types';
+
+// ===== PUBLIC INTERFACE =====
+
+export const pluginValidation = {
+    /**
+     * Validates the configuration of a plugin against its schema in Kong (see
+     * schema.ts). Returns the list of errors; an empty list means the plugin is
+     * valid, or that it cannot be validated as the schemas are not loaded.
+     */
+    validatePlugin: function (plugin: KongPlugin): PluginValidationError[] {
+        if (!pluginSchemas.isLoaded())
+            return [];
+        const schema = pluginSchemas.get(plugin.name);
+        if (!schema)
+            return [{ path: 'name', message: `plugin "${plugin.name}" is not available in Kong ${utils.getKongVersion()}` }];
+        const errors: PluginValidationError[] = [];
+        const config = plugin.config || {};
+        if (!isObject(config))
+            errors.push({ path: 'config', message: 'expected an object' });
+        else
+            validateFields(schema.fields, false, config, 'config', errors);
+        return errors;
+    },
+
+    /**
+     * Invalid plugins are skipped by the sync: they are neither added nor updated,
+     * and the corresponding plugins in Kong are kept as they are. Without a database,
+     * the deployed plugins are carried over into the declarative configuration
+     * instead (see dbless.renderConfig). Plugins with placeholders which could not
+     * be resolved are invalid as well.
+     */
+    isValid: function (plugin: KongPlugin): boolean {
+        if ((plugin as PortalPlugin).placeholder_errors)
+            return false;
+        return pluginValidation.validatePlugin(plugin).length === 0;
+    },
+
+    /**
+     * Validates the plugins of the given APIs, and records the results in the
+     * report; call this before changing anything in Kong.
+     */
+    checkApis: function (portalApis: ApiDescriptionCollection): void {
+        debug('checkApis()');
+        for (let i = 0; i < portalApis.apis.length; ++i) {
+            const apiConfig = portalApis.apis[i].config;
+            if (!apiConfig)
+                continue;
+            // The service name in Kong is the API ID
+            setIssues(_report.apis, apiConfig.api.name, `API ${apiConfig.api.name}`, validatePlugins(apiConfig.plugins || []));
+        }
+        updateReportInfo();
+    },
+
+    /**
+     * Validates the plugins of all plans (which are applied per consumer), and
+     * records the results in the report.
+     */
+    checkPlans: function (apiPlans: WickedApiPlanCollection): void {
+        debug('checkPlans()');
+        for (let i = 0; i < apiPlans.plans.length; ++i) {
+            const apiPlan = apiPlans.plans[i];
+            const plugins = (apiPlan.config && apiPlan.config.plugins) || [];
+            setIssues(_report.plans, apiPlan.id, `plan ${apiPlan.id}`, validatePlugins(plugins));
+        }
+        updateReportInfo();
+    },
+
+    /**
+     * Records the plugins with placeholders which could not be resolved (see
+     * placeholders.resolvePlugins), e.g. for "API petstore". Plan plugins are resolved
+     * for each subscription, so unchanged issues are not reported again.
+     */
+    setPlaceholderIssues: function (owner: string, issues: PluginValidationIssue[]): void {
+        if (JSON.stringify(_report.placeholders[owner] || []) === JSON.stringify(issues))
+            return;
+        setIssues(_report.placeholders, owner, owner, issues);
+    },
+
+    /**
+     * Records why a subscription is skipped, or, without a reason, that it is not.
+     */
+    setSubscriptionIssue: function (subscriptionId: string, reason: string): void {
+        if (!reason) {
+            delete _report.subscriptions[subscriptionId];
+            return;
+        }
+        if (_report.subscriptions[subscriptionId] !== reason)
+            warn(`Skipping subscription ${subscriptionId}: ${reason}`);
+        _report.subscriptions[subscriptionId] = reason;
+    },
+
+    /**
+     * The consumers of skipped subscriptions are kept in Kong as they are, like the
+     * plugins of invalid plugin configurations.
+     */
+    isSkippedSubscription: function (subscriptionId: string): boolean {
+        return !!subscriptionId && _report.subscriptions.hasOwnProperty(subscriptionId);
+    },
+
+    /**
+     * The invalid plugins, by API and by plan, and the skipped subscriptions, as of
+     * the most recent checks.
+     */
+    getReport: function (): PluginValidationReport {
+        return utils.clone(_report);
+    }
+};
+
+// ===== INTERNALS =====
+
+const _report: PluginValidationReport = {
+    kongVersion: null,
+    schemasLoaded: false,
+    apis: {},
+    plans: {},
+    placeholders: {},
+    subscriptions: {}
+};
+
+function updateReportInfo(): void {
+    _report.kongVersion = utils.getKongVersion();
+    _report.schemasLoaded = pluginSchemas.isLoaded();
+}
+
+function validatePlugins(plugins: KongPlugin[]): PluginValidationIssue[] {
+    const issues: PluginValidationIssue[] = [];
+    for (let i = 0; i < plugins.length; ++i) {
+        const errors = pluginValidation.validatePlugin(plugins[i]);
+        if (errors.length > 0) {
+            issues.push({
+                plugin: plugins[i].name,
+                index: i,
+                errors: errors
+            });
+        }
+    }
+    return issues;
+}
+
+function setIssues(issuesById: { [id: string]: PluginValidationIssue[] }, id: string, owner: string, issues: PluginValidationIssue[]): void {
+    if (issues.length === 0) {
+        delete issuesById[id];
+        return;
+    }
+    const text = issues.map(issue => `${issue.plugin} (#${issue.index}): ` + issue.errors.map(e => `${e.path} ${e.message}`).join(', ')).join('; ');
+    warn(`Skipping invalid plugins of ${owner}: ${text}`);
+    issuesById[id] = issues;
+}
+
+function validateFields(fields: { [name: string]: PluginSchemaField }, flexible: boolean, value: object, path: string, errors: PluginValidationError[]): void {
+    for (let name in value) {
+        if (!fields[name]) {
+            if (!flexible)
+                errors.push({ path: `${path}.${name}`, message: 'is an unknown field' });
+            continue;
+        }
+        validateValue(fields[name], value[name], `${path}.${name}`, errors);
+    }
+    for (let name in fields) {
+        const field = fields[name];
+        if (field.required && field.default === undefined && (value[name] === undefined || value[name] === null))
+            errors.push({ path: `${path}.${name}`, message: 'is required' });
+    }
+}
+
+function validateValue(field: PluginSchemaField, value: any, path: string, errors: PluginValidationError[]): void {
+    // Kong treats null as "not set"
+    if (value === null || value === undefined)
+        return;
+    switch (field.type) {
+        case 'string':
+        case 'url':
+            if (typeof value !== 'string')
+                return addTypeError(field.type, value, path, errors);
+            checkAllowedValue(field, value, path, errors);
+            return;
+        case 'number':
+        case 'integer':
+        case 'timestamp':
+            if (typeof value !== 'number' || (field.type === 'integer' && !Number.isInteger(value)))
+                return addTypeError(field.type, value, path, errors);
+            checkAllowedValue(field, value, path, errors);
+            return;
+        case 'boolean':
+            if (typeof value !== 'boolean')
+                return addTypeError(field.type, value, path, errors);
+            return;
+        case 'array':
+        case 'set':
+            // Kong also takes comma separated strings for arrays
+            if (typeof value === 'string')
+                return;
+            if (!Array.isArray(value))
+                return addTypeError(field.type, value, path, errors);
+            for (let i = 0; i < value.length; ++i)
+                checkAllowedValue(field, value[i], `${path}[${i}]`, errors);
+            return;
+        case 'table':
+        case 'record':
+        case 'map':
+            if (!isObject(value))
+                return addTypeError(field.type, value, path, errors);
+            if (field.fields)
+                validateFields(field.fields, !!field.flexible, value, path, errors);
+            return;
+        default:
+            // Unknown (or newer) types are not validated
+            return;
+    }
+}
+
+function checkAllowedValue(field: PluginSchemaField, value: any, path: string, errors: PluginValidationError[]): void {
+    if (field.values && field.values.indexOf(value) < 0)
+        errors.push({ path: path, message: `must be one of ${field.values.map(v => JSON.stringify(v)).join(', ')} (got ${JSON.stringify(value)})` });
+}
+
+function addTypeError(type: string, value: any, path: string, errors: PluginValidationError[]): void {
+    errors.push({ path: path, message: `expected a value of type ${type} (got ${JSON.stringify(value)})` });
+}
+
+function isObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,89 @@
+'use strict';
+
+/**
+ * Tests how the webhook events of an application are folded into the actions to
+ * take (kongMain.coalesceAppEvents, see dist/kong/main.js, run "npm run build"
+ * first). Nothing is sent to wicked or Kong.
+ *
+ * Usage: node test/coalesce.test.js
+ */
+
+const assert = require('assert');
+const path = require('path');
+
+const { kongMain } = require(path.join(__dirname, '..', 'dist', 'kong', 'main'));
+
+const APP_ID = 'app';
+
+function makeEvent(id, action, entity, data) {
+    return {
+        id: id,
+        action: action,
+        entity: entity,
+        data: Object.assign({ applicationId: APP_ID }, data)
+    };
+}
+
+function testSingleEvent() {
+    const actions = kongMain.coalesceAppEvents(APP_ID, [makeEvent('e1', 'add', 'subscription', { apiId: 'petstore' })]);
+    assert.deepStrictEqual(actions, {
+        appId: APP_ID,
+        subscriptionDeletes: [],
+        appDeleteSubscriptions: null,
+        syncConsumers: true,
+        eventIds: ['e1'],
+        trigger: 'webhook:add:subscription'
+    });
+}
+
+function testSubscriptionDeletes() {
+    const actions = kongMain.coalesceAppEvents(APP_ID, [
+        makeEvent('e1', 'add', 'subscription', { apiId: 'petstore' }),
+        makeEvent('e2', 'delete', 'subscription', { apiId: 'petstore', subscriptionId: 's1' }),
+        makeEvent('e3', 'delete', 'subscription', { apiId: 'petstore', subscriptionId: 's2' }),
+        makeEvent('e4', 'delete', 'subscription', { apiId: 'orders', subscriptionId: 's3' }),
+        makeEvent('e5', 'update', 'application')
+    ]);
+    // One delete per API (the last one), and one sync after all deletes
+    assert.deepStrictEqual(actions.subscriptionDeletes.map(d => d.subscriptionId), ['s2', 's3']);
+    assert.strictEqual(actions.appDeleteSubscriptions, null);
+    assert.strictEqual(actions.syncConsumers, true);
+    assert.deepStrictEqual(actions.eventIds, ['e1', 'e2', 'e3', 'e4', 'e5']);
+    assert.strictEqual(actions.trigger, 'webhook:coalesced');
+}
+
+function testApplicationDelete() {
+    const actions = kongMain.coalesceAppEvents(APP_ID, [
+        makeEvent('e1', 'add', 'subscription', { apiId: 'petstore' }),
+        makeEvent('e2', 'delete', 'application', { subscriptions: [{ api: 'petstore' }] }),
+        makeEvent('e3', 'delete', 'application', { subscriptions: [{ api: 'orders' }] })
+    ]);
+    // No need to sync the consumers of a deleted application
+    assert.strictEqual(actions.syncConsumers, false);
+    assert.deepStrictEqual(actions.appDeleteSubscriptions, [{ api: 'petstore' }, { api: 'orders' }]);
+}
+
+function testAddAfterApplicationDelete() {
+    const actions = kongMain.coalesceAppEvents(APP_ID, [
+        makeEvent('e1', 'delete', 'application', {}),
+        makeEvent('e2', 'add', 'application')
+    ]);
+    assert.deepStrictEqual(actions.appDeleteSubscriptions, []);
+    assert.strictEqual(actions.syncConsumers, true);
+}
+
+function testUnknownEvents() {
+    const actions = kongMain.coalesceAppEvents(APP_ID, [makeEvent('e1', 'login', 'user')]);
+    assert.strictEqual(actions.syncConsumers, false);
+    assert.deepStrictEqual(actions.subscriptionDeletes, []);
+    assert.strictEqual(actions.appDeleteSubscriptions, null);
+    // The event is still acknowledged
+    assert.deepStrictEqual(actions.eventIds, ['e1']);
+}
+
+testSingleEvent();
+testSubscriptionDeletes();
+testApplicationDelete();
+testAddAfterApplicationDelete();
+testUnknownEvents();
+console.log('coalesce: all tests passed.');
@@ -0,0 +1,81 @@
+'use strict';
+
+/**
+ * Tests the parsing of cron expressions and the computation of the next run of
+ * scheduled jobs (see dist/kong/cron.js, run "npm run build" first). All times
+ * are local times, as for the scheduler.
+ *
+ * Usage: node test/cron.test.js
+ */
+
+const assert = require('assert');
+const path = require('path');
+
+const { cron } = require(path.join(__dirname, '..', 'dist', 'kong', 'cron'));
+
+// Monday, 2026-10-19 10:07:30
+const START = new Date(2026, 9, 19, 10, 7, 30).getTime();
+
+function testParse() {
+    const schedule = cron.parse(' */15 1-3,10 * 1 0,7 ');
+    assert.strictEqual(schedule.expression, '*/15 1-3,10 * 1 0,7');
+    assert.deepStrictEqual(schedule.minutes, [0, 15, 30, 45]);
+    assert.deepStrictEqual(schedule.hours, [1, 2, 3, 10]);
+    assert.strictEqual(schedule.daysOfMonth.length, 31);
+    assert.deepStrictEqual(schedule.months, [1]);
+    // 7 is Sunday as well
+    assert.deepStrictEqual(schedule.daysOfWeek, [0, 0]);
+    assert.strictEqual(schedule.anyDayOfMonth, true);
+    assert.strictEqual(schedule.anyDayOfWeek, false);
+    // A single value with a step runs up to the maximum
+    assert.deepStrictEqual(cron.parse('5/20 * * * *').minutes, [5, 25, 45]);
+    assert.deepStrictEqual(cron.parse('0-30/10 * * * *').minutes, [0, 10, 20, 30]);
+}
+
+function testParseInvalid() {
+    const invalid = [
+        '60 * * * *',
+        '* 24 * * *',
+        '* * 0 * *',
+        '* * * 13 *',
+        '* * * * 8',
+        '* * *',
+        '* * * * * *',
+        'a * * * *',
+        '5-1 * * * *',
+        '*/0 * * * *',
+        '1,,2 * * * *'
+    ];
+    invalid.forEach(expression => assert.strictEqual(cron.parse(expression), null, `"${expression}" must be invalid`));
+}
+
+function assertNextTime(expression, expected) {
+    const nextTime = cron.getNextTime(cron.parse(expression), START);
+    assert.strictEqual(nextTime && new Date(nextTime).toString(), expected && expected.toString(), expression);
+}
+
+function testNextTime() {
+    assertNextTime('*/15 * * * *', new Date(2026, 9, 19, 10, 15));
+    assertNextTime('7 10 * * *', new Date(2026, 9, 20, 10, 7));
+    assertNextTime('0 3 * * 1-5', new Date(2026, 9, 20, 3, 0));
+    assertNextTime('30 2 2 * *', new Date(2026, 10, 2, 2, 30));
+    assertNextTime('0 0 1 1 *', new Date(2027, 0, 1, 0, 0));
+    assertNextTime('0 12 * * 7', new Date(2026, 9, 25, 12, 0));
+    // Either the day of month or the day of week: Friday the 23rd comes before the 13th
+    assertNextTime('0 0 13 * 5', new Date(2026, 9, 23, 0, 0));
+    assertNextTime('0 0 29 2 *', new Date(2028, 1, 29, 0, 0));
+    // Never matches
+    assertNextTime('0 0 31 2 *', null);
+}
+
+function testNextTimeIsAfterStart() {
+    const schedule = cron.parse('*/15 * * * *');
+    const exactly = new Date(2026, 9, 19, 10, 15, 0).getTime();
+    assert.strictEqual(cron.getNextTime(schedule, exactly), new Date(2026, 9, 19, 10, 30).getTime());
+}
+
+testParse();
+testParseInvalid();
+testNextTime();
+testNextTimeIsAfterStart();
+console.log('cron: all tests passed.');
@@ -0,0 +1,99 @@
+'use strict';
+
+/**
+ * Tests the comparison of portal side and Kong objects (utils.diffObjects, see
+ * dist/kong/utils.js, run "npm run build" first).
+ *
+ * Usage: node test/diff.test.js
+ */
+
+const assert = require('assert');
+const path = require('path');
+
+const utils = require(path.join(__dirname, '..', 'dist', 'kong', 'utils'));
+
+function testMatchingObjects() {
+    // Properties only present in Kong (defaults, server managed ones) are ignored
+    const apiObject = { name: 'cors', config: { origins: ['*'] } };
+    const kongObject = { id: 'id-1', created_at: 1, name: 'cors', config: { origins: ['*'], max_age: 3600 } };
+    assert.deepStrictEqual(utils.diffObjects(apiObject, kongObject), []);
+    assert.strictEqual(utils.matchObjects(apiObject, kongObject), true);
+    // Server managed properties are not compared on the portal side either
+    assert.deepStrictEqual(utils.diffObjects({ id: 'id-1', name: 'a' }, { id: 'id-2', name: 'a' }), []);
+}
+
+function testChangedAndAddedValues() {
+    assert.deepStrictEqual(utils.diffObjects({ config: { hour: 100, policy: 'local' } }, { config: { hour: 50 } }), [
+        { path: 'config.hour', change: 'changed', oldValue: 50, newValue: 100 },
+        { path: 'config.policy', change: 'added', newValue: 'local' }
+    ]);
+    // Different types are changes, even if the values look the same
+    assert.deepStrictEqual(utils.diffObjects({ port: '80' }, { port: 80 }), [
+        { path: 'port', change: 'changed', oldValue: 80, newValue: '80' }
+    ]);
+    assert.deepStrictEqual(utils.diffObjects({ config: { headers: ['a'] } }, { config: { headers: null } }), [
+        { path: 'config.headers', change: 'changed', oldValue: null, newValue: ['a'] }
+    ]);
+    assert.strictEqual(utils.matchObjects({ a: 1 }, { a: 2 }), false);
+}
+
+function testArrays() {
+    // Arrays are compared by position; surplus elements in Kong are removed
+    assert.deepStrictEqual(utils.diffObjects({ uris: ['/a', '/b'] }, { uris: ['/a', '/c', '/d'] }), [
+        { path: 'uris[1]', change: 'changed', oldValue: '/c', newValue: '/b' },
+        { path: 'uris[2]', change: 'removed', oldValue: '/d' }
+    ]);
+    assert.deepStrictEqual(utils.diffObjects({ uris: ['/a', '/b'] }, { uris: ['/a'] }), [
+        { path: 'uris[1]', change: 'added', newValue: '/b' }
+    ]);
+}
+
+function testUnorderedArrays() {
+    const options = { unorderedPaths: ['config.origins'] };
+    assert.deepStrictEqual(utils.diffObjects({ config: { origins: ['a', 'b'] } }, { config: { origins: ['b', 'a'] } }, options), []);
+    assert.deepStrictEqual(utils.diffObjects({ config: { origins: ['a', 'b'] } }, { config: { origins: ['b', 'c'] } }, options), [
+        { path: 'config.origins[]', change: 'added', newValue: 'a' },
+        { path: 'config.origins[]', change: 'removed', oldValue: 'c' }
+    ]);
+    // Each element has to match a different element
+    assert.deepStrictEqual(utils.diffObjects({ config: { origins: ['a', 'a'] } }, { config: { origins: ['a', 'b'] } }, options), [
+        { path: 'config.origins[]', change: 'added', newValue: 'a' },
+        { path: 'config.origins[]', change: 'removed', oldValue: 'b' }
+    ]);
+}
+
+function testRemovedProperties() {
+    const options = {
+        removedPaths: ['config'],
+        defaults: { 'config.minute': 10, 'config.limit_by': 'consumer' }
+    };
+    const apiObject = { name: 'rate-limiting', config: { hour: 100 } };
+    const kongObject = {
+        name: 'rate-limiting',
+        config: { hour: 100, second: 5, minute: 20, limit_by: 'consumer', day: null, headers: [], redis: {} },
+        enabled: true
+    };
+    // Empty values and default values are not reported; outside of "config", nothing is
+    assert.deepStrictEqual(utils.diffObjects(apiObject, kongObject, options), [
+        { path: 'config.second', change: 'removed', oldValue: 5, newValue: null },
+        { path: 'config.minute', change: 'removed', oldValue: 20, newValue: 10 }
+    ]);
+}
+
+function testSecretReferences() {
+    process.env.DIFF_TEST_SECRET = 's3cr3t';
+    assert.deepStrictEqual(utils.diffObjects({ config: { redis_password: '{secret:env:DIFF_TEST_SECRET}' } }, { config: { redis_password: 's3cr3t' } }), []);
+    assert.deepStrictEqual(utils.diffObjects({ config: { redis_password: '{secret:env:DIFF_TEST_SECRET}' } }, { config: { redis_password: 'other' } }), [
+        { path: 'config.redis_password', change: 'changed', oldValue: 'other', newValue: '{secret:env:DIFF_TEST_SECRET}' }
+    ]);
+    // Unresolvable references never match
+    assert.strictEqual(utils.diffObjects({ key: '{secret:env:DIFF_TEST_UNSET}' }, { key: 'x' }).length, 1);
+}
+
+testMatchingObjects();
+testChangedAndAddedValues();
+testArrays();
+testUnorderedArrays();
+testRemovedProperties();
+testSecretReferences();
+console.log('diff: all tests passed.');
@@ -0,0 +1,184 @@
+'use strict';
+
+/**
+ * Runs the snapshot tool (dist/bin/kong-snapshot.js, run "npm run build" first)
+ * against a fake Kong Admin API, without a portal: the tool must neither need
+ * the wicked SDK to be initialized, nor change anything in Kong in a dry run.
+ * Restoring into Kong >= 1.1 must tag all created entities (see DECISIONS.md).
+ *
+ * Usage: node test/kong-snapshot.test.js
+ */
+
+const assert = require('assert');
+const childProcess = require('child_process');
+const fs = require('fs');
+const http = require('http');
+const os = require('os');
+const path = require('path');
+
+const SNAPSHOT_TOOL = path.join(__dirname, '..', 'dist', 'bin', 'kong-snapshot.js');
+const TOOL_TIMEOUT = 30000;
+
+const SNAPSHOT = {
+    snapshotVersion: 1,
+    createdAt: '2019-01-01T00:00:00.000Z',
+    adapterVersion: 'test',
+    kongVersion: '0.14.1',
+    apis: [{
+        api: {
+            name: 'petstore',
+            upstream_url: 'http://petstore:8080',
+            uris: ['/petstore'],
+            strip_uri: true,
+            preserve_host: false
+        },
+        plugins: [{
+            name: 'cors',
+            config: { origins: ['*'] }
+        }]
+    }],
+    consumers: []
+};
+
+// An empty Kong of the given version; changing requests are recorded, and created
+// entities are returned with an ID, but not stored
+function startFakeKong(kongVersion, callback) {
+    const requests = [];
+    let nextId = 1;
+    const server = http.createServer(function (req, res) {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', function () {
+            const request = { method: req.method, url: req.url };
+            if (body)
+                request.body = JSON.parse(body);
+            requests.push(request);
+            res.setHeader('Content-Type', 'application/json');
+            switch (req.method) {
+                case 'GET':
+                    if (req.url === '/') {
+                        return res.end(JSON.stringify({
+                            version: kongVersion,
+                            plugins: { available_on_server: {} }
+                        }));
+                    }
+                    return res.end(JSON.stringify({ data: [], next: null }));
+                case 'DELETE':
+                    res.statusCode = 204;
+                    return res.end();
+                default:
+                    res.statusCode = req.method === 'POST' ? 201 : 200;
+                    return res.end(JSON.stringify(Object.assign({ id: `id-${nextId++}` }, request.body)));
+            }
+        });
+    });
+    server.listen(0, 'localhost', () => callback(server, requests));
+}
+
+function runTool(args, workDir, callback) {
+    const env = Object.assign({}, process.env, {
+        AUDIT_LOG_DIR: path.join(workDir, 'audit')
+    });
+    // Make sure nothing can reach a portal
+    delete env.PORTAL_API_URL;
+    delete env.IGNORE_RULES;
+    delete env.IGNORE_RULES_FILE;
+    childProcess.execFile('node', [SNAPSHOT_TOOL].concat(args), { env: env, timeout: TOOL_TIMEOUT }, callback);
+}
+
+// The plan is the last thing written to stdout, after any log output
+function parsePlan(stdout) {
+    const start = stdout.startsWith('{\n') ? 0 : stdout.indexOf('\n{\n') + 1;
+    assert.ok(start >= 0 && stdout.charAt(start) === '{', 'restore did not print a plan');
+    return JSON.parse(stdout.substring(start));
+}
+
+function testExport(kongUrl, workDir, callback) {
+    const outputFile = path.join(workDir, 'exported.json');
+    runTool(['export', '--kong-url', kongUrl, '--output', outputFile], workDir, function (err, stdout, stderr) {
+        assert.ifError(err && new Error(`export failed: ${err.message}\n${stderr}`));
+        const exported = JSON.parse(fs.readFileSync(outputFile, 'utf8'));
+        assert.strictEqual(exported.kongVersion, '0.14.1');
+        assert.deepStrictEqual(exported.apis, []);
+        assert.deepStrictEqual(exported.consumers, []);
+        return callback();
+    });
+}
+
+// Kong >= 1.0 references other entities as objects, e.g. "service": { "id": ... }
+function assertTaggedKong11Body(request) {
+    const description = `${request.method} ${request.url}`;
+    assert.ok(request.body.tags && request.body.tags.indexOf('managed-by:wicked') >= 0, `${description} is not tagged`);
+    for (let prop in request.body)
+        assert.ok(!prop.endsWith('_id'), `${description} contains ${prop}`);
+}
+
+function testRestoreTagged(kongUrl, workDir, requests, callback) {
+    const inputFile = path.join(workDir, 'snapshot.json');
+    fs.writeFileSync(inputFile, JSON.stringify(SNAPSHOT), 'utf8');
+    runTool(['restore', '--kong-url', kongUrl, '--input', inputFile, '--apply'], workDir, function (err, stdout, stderr) {
+        assert.ifError(err && new Error(`restore failed: ${err.message}\n${stderr}`));
+        const changes = requests.filter(r => r.method !== 'GET');
+        // The plugin is added to the service by its ID, e.g. /services/id-1/plugins
+        assert.deepStrictEqual(changes.map(r => `${r.method} ${r.url.replace(/id-\d+/, '<id>')}`), [
+            'POST /services',
+            'POST /routes',
+            'POST /services/<id>/plugins'
+        ]);
+        changes.forEach(assertTaggedKong11Body);
+        assert.ok(changes[0].body.tags.indexOf('wicked-api:petstore') >= 0, 'the service is not tagged with its API');
+        return callback();
+    });
+}
+
+function testRestoreDryRun(kongUrl, workDir, requests, callback) {
+    const inputFile = path.join(workDir, 'snapshot.json');
+    const rulesFile = path.join(workDir, 'ignore-rules.json');
+    fs.writeFileSync(inputFile, JSON.stringify(SNAPSHOT), 'utf8');
+    fs.writeFileSync(rulesFile, JSON.stringify([{ scope: 'services', pattern: 'manual-*' }]), 'utf8');
+    runTool(['restore', '--kong-url', kongUrl, '--input', inputFile, '--ignore-rules', rulesFile], workDir, function (err, stdout, stderr) {
+        assert.ifError(err && new Error(`restore failed: ${err.message}\n${stderr}`));
+        const plan = parsePlan(stdout);
+        assert.deepStrictEqual(plan.apis.addList.map(entry => entry.name), ['petstore']);
+        assert.deepStrictEqual(plan.apis.deleteList, []);
+        assert.deepStrictEqual(plan.ignoreRules.map(rule => rule.pattern), ['manual-*']);
+        assert.deepStrictEqual(requests.filter(r => r.method !== 'GET'), [], 'a dry run must not change Kong');
+        return callback();
+    });
+}
+
+function removeDir(dir) {
+    for (let fileName of fs.readdirSync(dir)) {
+        const filePath = path.join(dir, fileName);
+        if (fs.statSync(filePath).isDirectory())
+            removeDir(filePath);
+        else
+            fs.unlinkSync(filePath);
+    }
+    fs.rmdirSync(dir);
+}
+
+startFakeKong('0.14.1', function (server, requests) {
+    startFakeKong('1.1.2', function (server11, requests11) {
+        const kongUrl = `http://localhost:${server.address().port}/`;
+        const kong11Url = `http://localhost:${server11.address().port}/`;
+        const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kong-snapshot-test-'));
+        function done(err) {
+            server.close();
+            server11.close();
+            removeDir(workDir);
+            if (err) {
+                console.error(err);
+                process.exit(1);
+            }
+            console.log('kong-snapshot: all tests passed.');
+        }
+        // Failed assertions are thrown in callbacks
+        process.on('uncaughtException', done);
+        testExport(kongUrl, workDir, function () {
+            testRestoreDryRun(kongUrl, workDir, requests, function () {
+                testRestoreTagged(kong11Url, workDir, requests11, done);
+            });
+        });
+    });
+});
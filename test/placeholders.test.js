@@ -0,0 +1,84 @@
+'use strict';
+
+/**
+ * Tests the resolution of placeholders in plugin configurations (see
+ * dist/kong/placeholders.js, run "npm run build" first). Only placeholders which
+ * do not need the wicked globals are tested.
+ *
+ * Usage: node test/placeholders.test.js
+ */
+
+const assert = require('assert');
+const path = require('path');
+
+const { placeholders } = require(path.join(__dirname, '..', 'dist', 'kong', 'placeholders'));
+
+const API_CONTEXT = {
+    api: {
+        api: {
+            name: 'petstore',
+            uris: ['/petstore', '/pets']
+        }
+    },
+    planId: 'basic'
+};
+
+function testResolveString() {
+    process.env.PLACEHOLDERS_TEST_HOST = 'backend';
+    assert.strictEqual(placeholders.resolveString('%{env:PLACEHOLDERS_TEST_HOST}', {}), 'backend');
+    assert.strictEqual(placeholders.resolveString('http://%{env:PLACEHOLDERS_TEST_HOST}:8080/%{apiId}', API_CONTEXT), 'http://backend:8080/petstore');
+    assert.strictEqual(placeholders.resolveString('%{apiPrefix}', API_CONTEXT), '/petstore');
+    assert.strictEqual(placeholders.resolveString('plan-%{planId}', API_CONTEXT), 'plan-basic');
+    // Escaped and unknown placeholders are kept
+    assert.strictEqual(placeholders.resolveString('%%{env:PLACEHOLDERS_TEST_HOST}', {}), '%{env:PLACEHOLDERS_TEST_HOST}');
+    assert.strictEqual(placeholders.resolveString('%{remote_addr} %{env:PLACEHOLDERS_TEST_HOST}', {}), '%{remote_addr} backend');
+    assert.strictEqual(placeholders.resolveString('no placeholders', {}), 'no placeholders');
+}
+
+function testResolveStringErrors() {
+    assert.throws(() => placeholders.resolveString('%{env:PLACEHOLDERS_TEST_UNSET}', {}), /PLACEHOLDERS_TEST_UNSET .* is not set/);
+    assert.throws(() => placeholders.resolveString('%{env}', {}), /needs the name of an environment variable/);
+    assert.throws(() => placeholders.resolveString('%{planId}', { api: API_CONTEXT.api }), /only be used in plan plugins/);
+    assert.throws(() => placeholders.resolveString('%{apiPrefix}', { planId: 'basic' }), /only be used in plugins of an API/);
+}
+
+function testResolvePlugins() {
+    process.env.PLACEHOLDERS_TEST_HOST = 'backend';
+    const plugins = [
+        { name: 'request-transformer', config: { add: { headers: ['X-Backend: %{env:PLACEHOLDERS_TEST_HOST}', 'X-Plan: %{planId}'] }, count: 5 } },
+        { name: 'http-log', config: { http_endpoint: 'http://%{env:PLACEHOLDERS_TEST_UNSET}/log' } },
+        { name: 'cors' }
+    ];
+    const issues = placeholders.resolvePlugins(plugins, API_CONTEXT);
+    assert.deepStrictEqual(plugins[0].config, { add: { headers: ['X-Backend: backend', 'X-Plan: basic'] }, count: 5 });
+    assert.strictEqual(plugins[0].placeholder_errors, undefined);
+    // The plugin with the unresolvable placeholder keeps its configuration, and is marked
+    assert.strictEqual(plugins[1].config.http_endpoint, 'http://%{env:PLACEHOLDERS_TEST_UNSET}/log');
+    assert.strictEqual(plugins[1].placeholder_errors.length, 1);
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0].plugin, 'http-log');
+    assert.strictEqual(issues[0].index, 1);
+    assert.strictEqual(issues[0].errors[0].path, 'config.http_endpoint');
+
+    // Resolving again clears the mark once the placeholder can be resolved
+    process.env.PLACEHOLDERS_TEST_UNSET = 'logger';
+    try {
+        assert.deepStrictEqual(placeholders.resolvePlugins(plugins, API_CONTEXT), []);
+        assert.strictEqual(plugins[1].config.http_endpoint, 'http://logger/log');
+        assert.strictEqual(plugins[1].placeholder_errors, undefined);
+    } finally {
+        delete process.env.PLACEHOLDERS_TEST_UNSET;
+    }
+}
+
+function testGetOwner() {
+    assert.strictEqual(placeholders.getOwner({ api: API_CONTEXT.api }), 'API petstore');
+    assert.strictEqual(placeholders.getOwner(API_CONTEXT), 'plan basic of API petstore');
+    assert.strictEqual(placeholders.getOwner({ planId: 'basic' }), 'plan basic');
+}
+
+testResolveString();
+testResolveStringErrors();
+testResolvePlugins();
+testGetOwner();
+console.log('placeholders: all tests passed.');
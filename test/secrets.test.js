@@ -0,0 +1,109 @@
+'use strict';
+
+/**
+ * Tests the resolution of secret references and the redaction of secrets (see
+ * dist/kong/secrets.js, run "npm run build" first).
+ *
+ * Usage: node test/secrets.test.js
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const { secrets } = require(path.join(__dirname, '..', 'dist', 'kong', 'secrets'));
+
+function testRedact() {
+    const body = {
+        name: 'petstore',
+        key: 'my-api-key',
+        config: {
+            redis_password: '{secret:env:REDIS_PASSWORD}',
+            redis_host: 'redis',
+            timeout: 2000
+        },
+        plugins: {
+            oauth2: [{ client_id: 'client', client_secret: 'client-secret' }],
+            'basic-auth': [{ username: 'user', password: 'pass' }]
+        }
+    };
+    assert.deepStrictEqual(secrets.redact(body), {
+        name: 'petstore',
+        key: '***',
+        config: {
+            // References are not secret
+            redis_password: '{secret:env:REDIS_PASSWORD}',
+            redis_host: 'redis',
+            timeout: 2000
+        },
+        plugins: {
+            oauth2: [{ client_id: 'client', client_secret: '***' }],
+            'basic-auth': [{ username: 'user', password: '***' }]
+        }
+    });
+    // The body itself is not changed
+    assert.strictEqual(body.key, 'my-api-key');
+    assert.strictEqual(secrets.redact('text'), 'text');
+    assert.strictEqual(secrets.redact(null), null);
+    assert.deepStrictEqual(secrets.redact({ key: null, secret: '' }), { key: null, secret: '' });
+}
+
+function testRedactDiff() {
+    const diff = [
+        { path: 'plugins.key-auth[0].key', change: 'changed', oldValue: 'old-key', newValue: 'new-key' },
+        { path: 'config.origins[]', change: 'added', newValue: 'https://example.com' },
+        { path: 'plugins.oauth2[0]', change: 'removed', oldValue: { client_id: 'c', client_secret: 's' } }
+    ];
+    assert.deepStrictEqual(secrets.redactDiff(diff), [
+        { path: 'plugins.key-auth[0].key', change: 'changed', oldValue: '***', newValue: '***' },
+        { path: 'config.origins[]', change: 'added', newValue: 'https://example.com' },
+        { path: 'plugins.oauth2[0]', change: 'removed', oldValue: { client_id: 'c', client_secret: '***' } }
+    ]);
+}
+
+function testResolve() {
+    process.env.SECRETS_TEST_PASSWORD = 'from-env';
+    const fileName = path.join(os.tmpdir(), `secrets-test-${process.pid}`);
+    fs.writeFileSync(fileName, 'from-file\n', 'utf8');
+    try {
+        assert.strictEqual(secrets.isReference('{secret:env:SECRETS_TEST_PASSWORD}'), true);
+        assert.strictEqual(secrets.isReference('prefix {secret:env:SECRETS_TEST_PASSWORD}'), false);
+        assert.deepStrictEqual(secrets.resolve({
+            config: { redis_password: '{secret:env:SECRETS_TEST_PASSWORD}', list: [`{secret:file:${fileName}}`] },
+            name: 'unchanged'
+        }), {
+            config: { redis_password: 'from-env', list: ['from-file'] },
+            name: 'unchanged'
+        });
+        assert.throws(() => secrets.resolve({ key: '{secret:env:SECRETS_TEST_UNSET}' }), /SECRETS_TEST_UNSET is not set/);
+        assert.throws(() => secrets.resolve(`{secret:file:${fileName}.missing}`), /could not read/);
+    } finally {
+        fs.unlinkSync(fileName);
+    }
+}
+
+function testRedactResponse() {
+    process.env.SECRETS_TEST_REDIS = 'redis-pass';
+    const body = { key: 'abcdef123', config: { redis_password: '{secret:env:SECRETS_TEST_REDIS}', host: 'redis' } };
+    const resolvedBody = secrets.resolve(body);
+    // Kong echoes the submitted values, also within messages
+    const response = {
+        message: 'UNIQUE violation detected on \'{key="abcdef123"}\'',
+        fields: { key: 'abcdef123', other: 'auth failed for redis-pass' },
+        host: 'redis'
+    };
+    assert.deepStrictEqual(secrets.redactResponse(response, resolvedBody, body), {
+        message: 'UNIQUE violation detected on \'{key="***"}\'',
+        fields: { key: '***', other: 'auth failed for ***' },
+        host: 'redis'
+    });
+    assert.strictEqual(secrets.redactResponse('bad key abcdef123', resolvedBody, body), 'bad key ***');
+    assert.strictEqual(secrets.redactResponse(null, null, null), null);
+}
+
+testRedact();
+testRedactDiff();
+testResolve();
+testRedactResponse();
+console.log('secrets: all tests passed.');